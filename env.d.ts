@@ -1,5 +1,20 @@
 /// <reference types="vite/client" />
 
+interface ImportMetaEnv {
+  /** Application (client) ID of the Entra app registration. */
+  readonly VITE_CLIENT_ID?: string;
+  /** Tenant ID / domain, or "common". */
+  readonly VITE_TENANT_ID?: string;
+  /** National cloud: "public" | "usgov" | "china". */
+  readonly VITE_CLOUD?: string;
+  /** Graph API version segment (default "v1.0"). */
+  readonly VITE_GRAPH_VERSION?: string;
+  /** Optional URL of a runtime JSON config fetched at start-up. */
+  readonly VITE_CONFIG_URL?: string;
+  /** "true" to use the dev server's CAE emulator (dev only). */
+  readonly VITE_CAE_EMULATOR?: string;
+}
+
 declare module "*.vue" {
   import type { DefineComponent } from "vue";
   // eslint-disable-next-line @typescript-eslint/no-empty-object-type
@@ -0,0 +1,144 @@
+import { describe, it, expect, afterEach } from "vitest";
+
+import {
+  validateAppConfig,
+  readEnvConfig,
+  parseRuntimeConfig,
+  loadAppConfig,
+  applyAppConfig,
+  qualifyGraphScopes,
+  getProtectedResource,
+  msalConfig,
+  graphScopes,
+  ConfigurationError,
+} from "@/auth";
+import { scriptFetch, jsonResponse } from "@/test/harness";
+
+const clientId = "11111111-2222-3333-4444-555555555555";
+
+afterEach(() => {
+  applyAppConfig(validateAppConfig({ clientId }));
+});
+
+describe("validateAppConfig", () => {
+  it("rejects the placeholder client ID with a clear message", () => {
+    expect(() => validateAppConfig({})).toThrow(ConfigurationError);
+    expect(() => validateAppConfig({ clientId: "CLIENT ID" })).toThrow(
+      /VITE_CLIENT_ID/
+    );
+  });
+
+  it("rejects unknown clouds", () => {
+    expect(() =>
+      validateAppConfig({ clientId, cloud: "mars" as never })
+    ).toThrow(/Unknown cloud/);
+  });
+
+  it("fills defaults for the public multi-tenant cloud", () => {
+    expect(validateAppConfig({ clientId })).toEqual({
+      clientId,
+      tenantId: "common",
+      cloud: "public",
+      graphVersion: "v1.0",
+      emulator: false,
+    });
+  });
+
+  it("needs no client ID for the CAE emulator", () => {
+    expect(validateAppConfig({ emulator: true }).emulator).toBe(true);
+  });
+
+  it("refuses the CAE emulator outside development", () => {
+    const production = { DEV: false } as unknown as ImportMetaEnv;
+
+    expect(() => validateAppConfig({ emulator: true }, production)).toThrow(
+      ConfigurationError
+    );
+  });
+});
+
+describe("readEnvConfig", () => {
+  it("maps VITE_* variables", () => {
+    const env = {
+      VITE_CLIENT_ID: clientId,
+      VITE_TENANT_ID: "contoso.onmicrosoft.us",
+      VITE_CLOUD: "USGov",
+    } as unknown as ImportMetaEnv;
+
+    expect(readEnvConfig(env)).toEqual({
+      clientId,
+      tenantId: "contoso.onmicrosoft.us",
+      cloud: "usgov",
+    });
+  });
+
+  it("turns the CAE emulator on only in development", () => {
+    const env = { VITE_CAE_EMULATOR: "true" } as unknown as ImportMetaEnv;
+
+    expect(readEnvConfig({ ...env, DEV: true }).emulator).toBe(true);
+    expect(readEnvConfig({ ...env, DEV: false }).emulator).toBeUndefined();
+  });
+});
+
+describe("parseRuntimeConfig", () => {
+  const production = { DEV: false } as unknown as ImportMetaEnv;
+
+  it("type-checks the fetched fields", () => {
+    expect(parseRuntimeConfig({ clientId, cloud: "USGov", extra: 1 })).toEqual(
+      { clientId, cloud: "usgov" }
+    );
+    expect(() => parseRuntimeConfig({ clientId: 42 })).toThrow(
+      ConfigurationError
+    );
+    expect(() => parseRuntimeConfig(["clientId"])).toThrow(ConfigurationError);
+  });
+
+  it("refuses the CAE emulator outside development", () => {
+    expect(() =>
+      parseRuntimeConfig({ clientId, emulator: true }, production)
+    ).toThrow(/VITE_CAE_EMULATOR/);
+    expect(parseRuntimeConfig({ emulator: true }).emulator).toBe(true);
+  });
+});
+
+describe("loadAppConfig", () => {
+  it("applies a fetched national-cloud config everywhere", async () => {
+    scriptFetch(
+      jsonResponse({ clientId, tenantId: "contoso", cloud: "china" })
+    );
+
+    await loadAppConfig("/config.json");
+
+    expect(msalConfig.auth.clientId).toBe(clientId);
+    expect(msalConfig.auth.authority).toBe(
+      "https://login.chinacloudapi.cn/contoso"
+    );
+    expect(getProtectedResource("graph").baseUrl).toBe(
+      "https://microsoftgraph.chinacloudapi.cn/v1.0"
+    );
+    expect(graphScopes.userRead).toEqual([
+      "https://microsoftgraph.chinacloudapi.cn/User.Read",
+    ]);
+  });
+});
+
+describe("applyAppConfig", () => {
+  it("points Graph at the CAE emulator", () => {
+    applyAppConfig(validateAppConfig({ emulator: true }));
+
+    expect(getProtectedResource("graph").baseUrl).toBe(
+      `${window.location.origin}/cae-emulator/v1.0`
+    );
+  });
+});
+
+describe("qualifyGraphScopes", () => {
+  it("leaves OIDC scopes alone and un-qualifies for the public cloud", () => {
+    expect(
+      qualifyGraphScopes(
+        ["openid", "https://graph.microsoft.us/Mail.Read"],
+        "https://graph.microsoft.com"
+      )
+    ).toEqual(["openid", "Mail.Read"]);
+  });
+});
@@ -0,0 +1,179 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  buildAuthContextClaims,
+  buildGraphRequest,
+  hasAuthContext,
+  logout,
+  storeClaimsChallenge,
+  ConfigurationError,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  fakeJwt,
+} from "@/test/harness";
+
+const baselineToken = fakeJwt({ scp: "User.Read" });
+const elevatedToken = fakeJwt({ scp: "User.Read", acrs: ["c1"] });
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+describe("authentication context claims", () => {
+  it("requests the context as an essential acrs claim", () => {
+    const request = buildGraphRequest(["User.Read"], undefined, "c1");
+
+    expect(JSON.parse(request.claims!)).toEqual({
+      access_token: { acrs: { essential: true, value: "c1" } },
+    });
+  });
+
+  it("merges the context into a stored claims challenge", () => {
+    const claims = buildAuthContextClaims(
+      "c2",
+      JSON.stringify({ access_token: { nbf: { essential: true } } })
+    );
+
+    expect(JSON.parse(claims)).toEqual({
+      access_token: {
+        nbf: { essential: true },
+        acrs: { essential: true, value: "c2" },
+      },
+    });
+  });
+
+  it("rejects IDs outside c1 … c99", () => {
+    expect(() => buildAuthContextClaims("mfa")).toThrow(ConfigurationError);
+    expect(() => buildAuthContextClaims("c100")).toThrow(ConfigurationError);
+  });
+});
+
+describe("step-up", () => {
+  it("rejects an invalid context before requesting a token", async () => {
+    const msal = installFakeMsal();
+
+    await expect(
+      acquireToken(["User.Read"], "graph", { authContext: "mfa" })
+    ).rejects.toBeInstanceOf(ConfigurationError);
+    expect(msal.silentRequests).toHaveLength(0);
+  });
+
+  it("uses a baseline token that already satisfies the context", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(makeAuthResult({ accessToken: elevatedToken }));
+
+    const result = await acquireToken(["User.Read"], "graph", {
+      authContext: "c1",
+    });
+
+    expect(result.accessToken).toBe(elevatedToken);
+    expect(msal.silentRequests).toHaveLength(1);
+    expect(msal.silentRequests[0].claims).toBeUndefined();
+  });
+
+  it("steps up through the popup and caches the elevated token", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: baselineToken }),
+      new InteractionRequiredAuthError("interaction_required")
+    );
+    msal.onPopup(makeAuthResult({ accessToken: elevatedToken }));
+
+    const first = await acquireToken(["User.Read"], "graph", {
+      authContext: "c1",
+    });
+    const again = await acquireToken(["User.Read"], "graph", {
+      authContext: "c1",
+    });
+
+    expect(first.accessToken).toBe(elevatedToken);
+    expect(again.accessToken).toBe(elevatedToken);
+    expect(msal.popupRequests).toHaveLength(1);
+    expect(JSON.parse(msal.popupRequests[0].claims!)).toEqual({
+      access_token: { acrs: { essential: true, value: "c1" } },
+    });
+    expect(msal.silentRequests[1].forceRefresh).toBe(true);
+    expect(hasAuthContext("c1")).toBe(true);
+  });
+
+  it("keeps the acrs request when silent step-up returns claims", async () => {
+    const challenge = JSON.stringify({
+      access_token: { nbf: { essential: true, value: "1" } },
+    });
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: baselineToken }),
+      new InteractionRequiredAuthError(
+        "interaction_required",
+        "AADSTS50076",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        challenge
+      )
+    );
+    msal.onPopup(makeAuthResult({ accessToken: elevatedToken }));
+
+    await acquireToken(["User.Read"], "graph", { authContext: "c1" });
+
+    expect(JSON.parse(msal.popupRequests[0].claims!)).toEqual({
+      access_token: {
+        nbf: { essential: true, value: "1" },
+        acrs: { essential: true, value: "c1" },
+      },
+    });
+  });
+
+  it("keeps the elevated token apart from the baseline one", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: baselineToken }),
+      makeAuthResult({ accessToken: elevatedToken }),
+      makeAuthResult({ accessToken: baselineToken })
+    );
+
+    await acquireToken(["User.Read"], "graph", { authContext: "c1" });
+    const baseline = await acquireToken(["User.Read"]);
+    const elevated = await acquireToken(["User.Read"], "graph", {
+      authContext: "c1",
+    });
+
+    expect(baseline.accessToken).toBe(baselineToken);
+    expect(elevated.accessToken).toBe(elevatedToken);
+    expect(msal.silentRequests).toHaveLength(3);
+  });
+
+  it("skips the elevated cache while a challenge is stored", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: elevatedToken }),
+      makeAuthResult({ accessToken: elevatedToken })
+    );
+    await acquireToken(["User.Read"], "graph", { authContext: "c1" });
+
+    storeClaimsChallenge(
+      "graph",
+      JSON.stringify({ access_token: { nbf: { essential: true } } })
+    );
+    await acquireToken(["User.Read"], "graph", { authContext: "c1" });
+
+    expect(msal.silentRequests).toHaveLength(2);
+    expect(msal.silentRequests[1].claims).toContain("nbf");
+  });
+
+  it("forgets elevated tokens on sign-out", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(makeAuthResult({ accessToken: elevatedToken }));
+    await acquireToken(["User.Read"], "graph", { authContext: "c1" });
+
+    await logout();
+
+    expect(hasAuthContext("c1")).toBe(false);
+  });
+});
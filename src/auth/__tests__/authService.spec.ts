@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  callGraphWithClaimsRetry,
+  storeClaimsChallenge,
+  getStoredClaimsChallenge,
+  ClaimsChallengeUnresolvedError,
+  ApiError,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  scriptFetch,
+  jsonResponse,
+  claimsChallengeResponse,
+  testAccount,
+} from "@/test/harness";
+
+const revocationClaims = {
+  access_token: { nbf: { essential: true, value: "1700000000" } },
+};
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+describe("acquireToken", () => {
+  it("returns the silent result without prompting", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(makeAuthResult({ accessToken: "silent-token" }));
+
+    const result = await acquireToken(["User.Read"]);
+
+    expect(result.accessToken).toBe("silent-token");
+    expect(msal.silentRequests).toHaveLength(1);
+    expect(msal.silentRequests[0].account).toEqual(testAccount);
+    expect(msal.silentRequests[0].forceRefresh).toBeUndefined();
+    expect(msal.popupRequests).toHaveLength(0);
+  });
+
+  it("attaches a stored challenge, forces refresh and clears it", async () => {
+    const msal = installFakeMsal();
+    storeClaimsChallenge("graph", '{"access_token":{}}');
+
+    await acquireToken(["User.Read"], "graph");
+
+    expect(msal.silentRequests[0].claims).toBe('{"access_token":{}}');
+    expect(msal.silentRequests[0].forceRefresh).toBe(true);
+    expect(getStoredClaimsChallenge("graph")).toBeUndefined();
+  });
+
+  it("falls back to popup with the claims from InteractionRequiredAuthError", async () => {
+    const msal = installFakeMsal();
+    const error = new InteractionRequiredAuthError(
+      "interaction_required",
+      "claims required",
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      '{"access_token":{"acrs":{"essential":true,"value":"c1"}}}'
+    );
+    msal.onSilent(error);
+    msal.onPopup(makeAuthResult({ accessToken: "interactive-token" }));
+
+    const result = await acquireToken(["Mail.Read"], "graph");
+
+    expect(result.accessToken).toBe("interactive-token");
+    expect(msal.popupRequests[0].claims).toBe(error.claims);
+    expect(getStoredClaimsChallenge("graph")).toBeUndefined();
+  });
+
+  it("shares one acquisition between concurrent callers", async () => {
+    const msal = installFakeMsal();
+
+    const [a, b, c] = await Promise.all([
+      acquireToken(["User.Read"]),
+      acquireToken(["User.Read"]),
+      acquireToken(["user.read"]),
+    ]);
+
+    expect(msal.silentRequests).toHaveLength(1);
+    expect(a).toBe(b);
+    expect(b).toBe(c);
+  });
+});
+
+describe("callGraphWithClaimsRetry", () => {
+  it("retries once with the claims challenge from a 401", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: "old-token" }),
+      makeAuthResult({ accessToken: "new-token" })
+    );
+    const requests = scriptFetch(
+      claimsChallengeResponse(revocationClaims),
+      jsonResponse({ displayName: "Adele Vance" })
+    );
+
+    const profile = await callGraphWithClaimsRetry<{ displayName: string }>(
+      "/me",
+      ["User.Read"]
+    );
+
+    expect(profile.displayName).toBe("Adele Vance");
+    expect(requests.map((r) => r.headers.get("Authorization"))).toEqual([
+      "Bearer old-token",
+      "Bearer new-token",
+    ]);
+    expect(JSON.parse(msal.silentRequests[1].claims!)).toEqual(
+      revocationClaims
+    );
+    expect(msal.silentRequests[1].forceRefresh).toBe(true);
+  });
+
+  it("throws ClaimsChallengeUnresolvedError when the retry is challenged again", async () => {
+    installFakeMsal();
+    scriptFetch(
+      claimsChallengeResponse(revocationClaims),
+      claimsChallengeResponse(revocationClaims)
+    );
+
+    await expect(
+      callGraphWithClaimsRetry("/me", ["User.Read"])
+    ).rejects.toBeInstanceOf(ClaimsChallengeUnresolvedError);
+  });
+
+  it("surfaces other failures as ApiError with the request ID", async () => {
+    installFakeMsal();
+    scriptFetch(
+      new Response('{"error":{"code":"ErrorItemNotFound"}}', {
+        status: 404,
+        statusText: "Not Found",
+        headers: { "request-id": "req-123" },
+      })
+    );
+
+    const error = await callGraphWithClaimsRetry("/me/messages/x", [
+      "Mail.Read",
+    ]).catch((e: unknown) => e);
+
+    expect(error).toBeInstanceOf(ApiError);
+    expect(error).toMatchObject({ status: 404, requestId: "req-123" });
+  });
+});
@@ -0,0 +1,78 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import { AuthError } from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  logout,
+  getGrantedScopes,
+  getMissingScopes,
+  hasGrantedScopes,
+  clearGrantedScopes,
+  normaliseScope,
+  toAuthServiceError,
+  AdminConsentRequiredError,
+  ConsentRequiredError,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  testAccount,
+} from "@/test/harness";
+
+beforeEach(() => {
+  resetAuthState();
+  clearGrantedScopes(testAccount);
+});
+
+describe("granted-scope tracking", () => {
+  it("normalises resource-qualified scopes", () => {
+    expect(normaliseScope("https://graph.microsoft.us/Mail.Read")).toBe(
+      "mail.read"
+    );
+    expect(normaliseScope("User.Read")).toBe("user.read");
+  });
+
+  it("records the scopes of every token response", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({
+        scopes: ["https://graph.microsoft.com/User.Read", "Mail.Read"],
+      })
+    );
+
+    await acquireToken(["Mail.Read"]);
+
+    expect(getGrantedScopes(testAccount)).toEqual(["user.read", "mail.read"]);
+    expect(hasGrantedScopes(["MAIL.READ", "openid"], testAccount)).toBe(true);
+    expect(getMissingScopes(["Mail.Send"], testAccount)).toEqual([
+      "Mail.Send",
+    ]);
+  });
+
+  it("forgets the grants on sign-out", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(makeAuthResult());
+    await acquireToken(["User.Read"]);
+
+    await logout();
+
+    expect(getGrantedScopes(testAccount)).toEqual([]);
+  });
+});
+
+describe("consent errors", () => {
+  it("distinguishes admin consent from user consent", () => {
+    const admin = toAuthServiceError(
+      new AuthError("invalid_grant", "AADSTS90094: admin approval needed")
+    );
+    const user = toAuthServiceError(
+      new AuthError("invalid_grant", "AADSTS65001: consent required")
+    );
+
+    expect(admin).toBeInstanceOf(AdminConsentRequiredError);
+    expect(admin.code).toBe("admin_consent_required");
+    expect(user).toBeInstanceOf(ConsentRequiredError);
+    expect(user).not.toBeInstanceOf(AdminConsentRequiredError);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach } from "vitest";
+
+import {
+  acquireToken,
+  callGraphWithClaimsRetry,
+  configureDiagnostics,
+  clearDiagnostics,
+  getDiagnostics,
+  recordDiagnostic,
+  exportDiagnostics,
+  redact,
+  DEFAULT_DIAGNOSTICS_CAPACITY,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  scriptFetch,
+  claimsChallengeResponse,
+} from "@/test/harness";
+
+beforeEach(() => {
+  resetAuthState();
+  configureDiagnostics({ capacity: DEFAULT_DIAGNOSTICS_CAPACITY });
+  clearDiagnostics();
+});
+
+describe("redaction", () => {
+  it("removes tokens, secrets and e-mail addresses", () => {
+    const text =
+      "Authorization: Bearer abc.def-ghi for jane.doe@contoso.com " +
+      "token eyJhbGciOi.eyJzdWIiOi.c2lnbmF0dXJl ?code=0.AXYZ&state=1";
+
+    expect(redact(text)).toBe(
+      "Authorization: Bearer [token] for [email] " +
+        "token [token] ?code=[redacted]&state=1"
+    );
+  });
+
+  it("removes percent-encoded addresses and shared mailbox owners", () => {
+    expect(redact("/v1.0/users/sales%40contoso.com/messages/AAMk")).toBe(
+      "/v1.0/users/[user]/messages/AAMk"
+    );
+    expect(redact("owner=sales%40Contoso.com")).toBe("owner=[email]");
+  });
+
+  it("applies to recorded messages, details and export context", () => {
+    recordDiagnostic("msal", "user bob@contoso.com", {
+      hint: "bob@contoso.com",
+      count: 2,
+      skipped: undefined,
+    });
+
+    const [event] = getDiagnostics();
+    expect(event.message).toBe("user [email]");
+    expect(event.details).toEqual({ hint: "[email]", count: 2 });
+    expect(exportDiagnostics({ user: "bob@contoso.com" }).context).toEqual({
+      user: "[email]",
+    });
+  });
+});
+
+describe("ring buffer", () => {
+  it("keeps only the newest events", () => {
+    configureDiagnostics({ capacity: 2 });
+    recordDiagnostic("api", "one");
+    recordDiagnostic("api", "two");
+    recordDiagnostic("api", "three");
+
+    expect(getDiagnostics().map((e) => e.message)).toEqual(["two", "three"]);
+    expect(getDiagnostics()[1].seq).toBeGreaterThan(getDiagnostics()[0].seq);
+  });
+});
+
+describe("auth instrumentation", () => {
+  it("records token acquisitions", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(makeAuthResult({ fromCache: true }));
+
+    await acquireToken(["User.Read"]);
+
+    const token = getDiagnostics().find((e) => e.type === "token");
+    expect(token?.message).toBe("Token acquired (silent)");
+    expect(token?.details).toMatchObject({
+      resource: "graph",
+      fromCache: true,
+      forceRefresh: false,
+      claims: false,
+    });
+  });
+
+  it("records claims challenges and API request IDs", async () => {
+    installFakeMsal();
+    scriptFetch(
+      claimsChallengeResponse({ access_token: { nbf: { essential: true } } }),
+      new Response("{}", { headers: { "request-id": "req-42" } })
+    );
+
+    await callGraphWithClaimsRetry("/me", ["User.Read"]);
+
+    const summary = getDiagnostics().map((e) => `${e.type}: ${e.message}`);
+    expect(summary).toEqual([
+      "token: Token acquired (silent)",
+      "api: GET 401",
+      "claims: Claims challenge stored",
+      "claims: Claims challenge cleared",
+      "token: Token acquired (silent)",
+      "api: GET 200",
+    ]);
+    expect(getDiagnostics().at(-1)?.details.requestId).toBe("req-42");
+  });
+});
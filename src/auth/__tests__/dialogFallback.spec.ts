@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+
+import {
+  detectAuthMode,
+  acquireTokenViaDialog,
+  toAuthServiceError,
+  AuthServiceError,
+  UserCancelledError,
+  type DialogAuthMessage,
+} from "@/auth";
+import { makeAuthResult } from "@/test/harness";
+
+type DialogArg = { message?: string; origin?: string; error?: number };
+type DialogHandler = (arg: DialogArg) => void;
+
+/** Stub `Office` with a dialog that replays `arg` to the right handler. */
+function stubOfficeDialog(
+  arg: { message: string } | { error: number },
+  naa = false
+) {
+  const close = vi.fn();
+  const displayDialogAsync = vi.fn(
+    (url: string, _options: unknown, callback: (r: unknown) => void) => {
+      const handlers = new Map<string, DialogHandler>();
+      callback({
+        status: "succeeded",
+        value: {
+          close,
+          addEventHandler: (type: string, handler: DialogHandler) =>
+            handlers.set(type, handler),
+        },
+      });
+      const type = "message" in arg ? "message" : "event";
+      handlers.get(type)?.({ origin: window.location.origin, ...arg });
+      return url;
+    }
+  );
+
+  vi.stubGlobal("Office", {
+    AsyncResultStatus: { Failed: "failed" },
+    EventType: {
+      DialogMessageReceived: "message",
+      DialogEventReceived: "event",
+    },
+    context: {
+      requirements: { isSetSupported: () => naa },
+      ui: { displayDialogAsync },
+    },
+  });
+  return { displayDialogAsync, close };
+}
+
+describe("detectAuthMode", () => {
+  it("prefers NAA, then the Office dialog, then a browser popup", () => {
+    stubOfficeDialog({ error: 0 }, true);
+    expect(detectAuthMode()).toBe("naa");
+
+    stubOfficeDialog({ error: 0 }, false);
+    expect(detectAuthMode()).toBe("dialog");
+
+    vi.unstubAllGlobals();
+    expect(detectAuthMode()).toBe("popup");
+  });
+});
+
+describe("acquireTokenViaDialog", () => {
+  it("passes the request (with claims) and revives the result", async () => {
+    const result = makeAuthResult({ accessToken: "dialog-token" });
+    const message: DialogAuthMessage = {
+      status: "success",
+      result: JSON.parse(JSON.stringify(result)),
+    };
+    const { displayDialogAsync, close } = stubOfficeDialog({
+      message: JSON.stringify(message),
+    });
+
+    const token = await acquireTokenViaDialog({
+      scopes: ["Mail.Read"],
+      claims: '{"access_token":{}}',
+    });
+
+    const url = new URL(displayDialogAsync.mock.calls[0][0]);
+    expect(JSON.parse(url.searchParams.get("request")!)).toMatchObject({
+      scopes: ["Mail.Read"],
+      claims: '{"access_token":{}}',
+    });
+    expect(token.accessToken).toBe("dialog-token");
+    expect(token.expiresOn).toBeInstanceOf(Date);
+    expect(close).toHaveBeenCalled();
+  });
+
+  it("maps a dialog closed by the user to UserCancelledError", async () => {
+    stubOfficeDialog({ error: 12006 });
+
+    const error = await acquireTokenViaDialog({ scopes: ["User.Read"] }).catch(
+      (e: unknown) => e
+    );
+
+    expect(toAuthServiceError(error)).toBeInstanceOf(UserCancelledError);
+  });
+
+  it("rejects, and closes the dialog, on an unreadable message", async () => {
+    for (const message of ["<html>", "null", '{"status":"weird"}']) {
+      const { close } = stubOfficeDialog({ message });
+
+      await expect(
+        acquireTokenViaDialog({ scopes: ["User.Read"] })
+      ).rejects.toBeInstanceOf(AuthServiceError);
+      expect(close).toHaveBeenCalled();
+    }
+  });
+});
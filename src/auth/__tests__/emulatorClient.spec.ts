@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  createEmulatorClient,
+  emulatorAccount,
+  setMsalInstance,
+  SessionRevokedError,
+} from "@/auth";
+import {
+  jsonResponse,
+  resetAuthState,
+  scriptFetch,
+  type RecordedRequest,
+} from "@/test/harness";
+
+const baseUrl = "https://localhost:3000/cae-emulator";
+
+const token = (accessToken = "emulated-token") =>
+  jsonResponse({ access_token: accessToken, expires_in: 3600, scope: "" });
+
+const tokenBody = (request: RecordedRequest) =>
+  JSON.parse(request.body as string);
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("emulator client", () => {
+  it("requires a sign-in before silent calls", async () => {
+    const client = createEmulatorClient(baseUrl);
+
+    await expect(
+      client.acquireTokenSilent({ scopes: ["User.Read"] })
+    ).rejects.toBeInstanceOf(InteractionRequiredAuthError);
+    expect(client.getAllAccounts()).toEqual([]);
+  });
+
+  it("signs in with a popup and caches tokens per scope set", async () => {
+    const requests = scriptFetch(token("first"), token("second"));
+    const client = createEmulatorClient(baseUrl);
+
+    await client.acquireTokenPopup({ scopes: ["User.Read"] });
+    const silent = await client.acquireTokenSilent({ scopes: ["User.Read"] });
+    const refreshed = await client.acquireTokenSilent({
+      scopes: ["User.Read"],
+      forceRefresh: true,
+    });
+
+    expect(client.getActiveAccount()).toBe(emulatorAccount);
+    expect(silent).toMatchObject({ accessToken: "first", fromCache: true });
+    expect(refreshed.accessToken).toBe("second");
+    expect(requests.map((request) => request.url)).toEqual([
+      `${baseUrl}/_token`,
+      `${baseUrl}/_token`,
+    ]);
+    expect(tokenBody(requests[0]).interactive).toBe(true);
+    expect(tokenBody(requests[1]).interactive).toBe(false);
+  });
+
+  it("raises step-up refusals as interaction required", async () => {
+    const claims = '{"access_token":{"acrs":{"essential":true,"value":"c1"}}}';
+    scriptFetch(
+      token(),
+      jsonResponse(
+        {
+          error: "interaction_required",
+          error_description: "AADSTS50076: MFA required.",
+          claims,
+        },
+        400
+      )
+    );
+    const client = createEmulatorClient(baseUrl);
+    await client.acquireTokenPopup({ scopes: ["User.Read"] });
+
+    const error = await client
+      .acquireTokenSilent({ scopes: ["User.Read"], claims })
+      .catch((caught: unknown) => caught);
+
+    expect(error).toBeInstanceOf(InteractionRequiredAuthError);
+    expect((error as InteractionRequiredAuthError).claims).toBe(claims);
+  });
+
+  it("ends the session when the emulator revokes the grant", async () => {
+    const revoked = () =>
+      jsonResponse(
+        {
+          error: "invalid_grant",
+          error_description: "AADSTS50173: The provided grant was revoked.",
+        },
+        400
+      );
+    scriptFetch(token(), revoked(), revoked());
+    const client = createEmulatorClient(baseUrl);
+    setMsalInstance(client);
+    await acquireToken(["User.Read"]);
+
+    await expect(
+      acquireToken(["Mail.Read"], "graph", { interactive: false })
+    ).rejects.toBeInstanceOf(SessionRevokedError);
+    expect(client.getAllAccounts()).toEqual([]);
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  callGraphBatch,
+  GRAPH_BATCH_LIMIT,
+  type GraphBatchRequest,
+} from "@/auth";
+import {
+  encodeClaims,
+  installFakeMsal,
+  jsonResponse,
+  resetAuthState,
+  scriptFetch,
+  type RecordedRequest,
+} from "@/test/harness";
+
+const claims = { access_token: { nbf: { essential: true, value: "1" } } };
+
+/** Requests of a recorded `$batch` call. */
+const sent = (request: RecordedRequest): GraphBatchRequest[] =>
+  JSON.parse(request.body as string).requests;
+
+/** Answer every request of a batch with 200 and its URL. */
+function answerAll(request: RecordedRequest): Response {
+  return jsonResponse({
+    responses: sent(request).map(({ id, url }) => ({
+      id,
+      status: 200,
+      headers: {},
+      body: { url },
+    })),
+  });
+}
+
+/** A batch response item rejected with a claims challenge. */
+const challenged = (id?: string) => ({
+  id,
+  status: 401,
+  headers: {
+    "WWW-Authenticate":
+      'Bearer error="insufficient_claims", ' +
+      `claims="${encodeClaims(claims)}"`,
+  },
+  body: {},
+});
+
+/** Answer every request with 200, except `ids` with a claims challenge. */
+const challenge = (...ids: string[]) => (request: RecordedRequest) =>
+  jsonResponse({
+    responses: sent(request).map(({ id, url }) =>
+      ids.includes(id!)
+        ? challenged(id)
+        : { id, status: 200, headers: {}, body: { url } }
+    ),
+  });
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("callGraphBatch", () => {
+  it("retries only the challenged requests, with the claims", async () => {
+    const msal = installFakeMsal();
+    const requests = scriptFetch(challenge("b"), answerAll);
+
+    const responses = await callGraphBatch(
+      [
+        { id: "a", url: "/me" },
+        { id: "b", url: "/me/messages" },
+      ],
+      ["Mail.Read"]
+    );
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200]);
+    expect(sent(requests[1]).map((r) => r.id)).toEqual(["b"]);
+    expect(JSON.parse(msal.silentRequests[1].claims!)).toEqual(claims);
+  });
+
+  it("drops dependencies on requests outside the retry", async () => {
+    installFakeMsal();
+    const requests = scriptFetch(challenge("b"), answerAll);
+
+    await callGraphBatch(
+      [
+        { id: "a", method: "POST", url: "/me/messages", body: {} },
+        { id: "b", url: "/me/messages", dependsOn: ["a"] },
+      ],
+      ["Mail.ReadWrite"]
+    );
+
+    expect(sent(requests[0])[1].dependsOn).toEqual(["a"]);
+    expect(sent(requests[1])).toEqual([
+      { id: "b", method: "GET", url: "/me/messages" },
+    ]);
+  });
+
+  it("retries the requests that failed because of a challenge", async () => {
+    installFakeMsal();
+    // "a" is challenged; "b" depends on it and "c" on "b", so both 424
+    const failedDependency = (request: RecordedRequest) =>
+      jsonResponse({
+        responses: sent(request).map(({ id }) =>
+          id === "a"
+            ? challenged(id)
+            : { id, status: id === "d" ? 200 : 424, headers: {}, body: {} }
+        ),
+      });
+    const requests = scriptFetch(failedDependency, answerAll);
+
+    const responses = await callGraphBatch(
+      [
+        { id: "a", method: "POST", url: "/me/messages", body: {} },
+        { id: "b", url: "/me/messages", dependsOn: ["a"] },
+        { id: "c", url: "/me/messages", dependsOn: ["b"] },
+        { id: "d", url: "/me" },
+      ],
+      ["Mail.ReadWrite"]
+    );
+
+    expect(responses.map((r) => r.status)).toEqual([200, 200, 200, 200]);
+    expect(sent(requests[1]).map((r) => r.id)).toEqual(["a", "b", "c"]);
+    expect(sent(requests[1])[2].dependsOn).toEqual(["b"]);
+  });
+
+  it("sends chunks of 20 and maps responses back by ID", async () => {
+    installFakeMsal();
+    // Graph may answer in any order
+    const reversed = (request: RecordedRequest) =>
+      jsonResponse({
+        responses: sent(request)
+          .reverse()
+          .map(({ id, url }) => ({ id, status: 200, headers: {}, body: url })),
+      });
+    const requests = scriptFetch(reversed, reversed);
+    const batch = Array.from({ length: GRAPH_BATCH_LIMIT + 5 }, (_, i) => ({
+      url: `/me/messages/${i}`,
+    }));
+
+    const responses = await callGraphBatch(batch, ["Mail.Read"]);
+
+    expect(requests.map((request) => sent(request).length)).toEqual([
+      GRAPH_BATCH_LIMIT,
+      5,
+    ]);
+    expect(responses.map((response) => response.body)).toEqual(
+      batch.map((request) => request.url)
+    );
+    expect(responses[3].id).toBe("3");
+  });
+
+  it("adds a JSON content type to requests with a body", async () => {
+    installFakeMsal();
+    const requests = scriptFetch(answerAll);
+
+    await callGraphBatch(
+      [{ method: "PATCH", url: "/me/messages/1", body: { isRead: true } }],
+      ["Mail.ReadWrite"]
+    );
+
+    expect(sent(requests[0])[0].headers).toEqual({
+      "Content-Type": "application/json",
+    });
+  });
+
+  it("keeps dependency chains in one chunk", async () => {
+    installFakeMsal();
+    const requests = scriptFetch(answerAll, answerAll);
+    const batch: GraphBatchRequest[] = Array.from(
+      { length: GRAPH_BATCH_LIMIT - 1 },
+      (_, i) => ({ url: `/me/messages/${i}` })
+    );
+    batch.push(
+      { id: "first", url: "/me" },
+      { id: "second", url: "/me/events", dependsOn: ["first"] }
+    );
+
+    await callGraphBatch(batch, ["Mail.Read"]);
+
+    expect(sent(requests[0])).toHaveLength(GRAPH_BATCH_LIMIT - 1);
+    expect(sent(requests[1]).map((r) => r.id)).toEqual(["first", "second"]);
+  });
+});
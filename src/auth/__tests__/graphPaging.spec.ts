@@ -0,0 +1,90 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { collectGraphItems, iterateGraphPages } from "@/auth";
+import {
+  claimsChallengeResponse,
+  installFakeMsal,
+  jsonResponse,
+  resetAuthState,
+  scriptFetch,
+} from "@/test/harness";
+
+const nextLink = (skip: number) =>
+  `https://graph.microsoft.com/v1.0/me/messages?$skip=${skip}`;
+
+beforeEach(() => {
+  resetAuthState();
+  installFakeMsal();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("iterateGraphPages", () => {
+  it("follows @odata.nextLink until the last page", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ value: [1, 2], "@odata.nextLink": nextLink(2) }),
+      jsonResponse({ value: [3], "@odata.nextLink": nextLink(3) }),
+      jsonResponse({ value: [] })
+    );
+
+    const pages: number[][] = [];
+    for await (const page of iterateGraphPages<number>("/me/messages", [
+      "Mail.Read",
+    ])) {
+      pages.push(page.value);
+    }
+
+    expect(pages).toEqual([[1, 2], [3], []]);
+    expect(requests.map((request) => request.url)).toEqual([
+      "https://graph.microsoft.com/v1.0/me/messages",
+      nextLink(2),
+      nextLink(3),
+    ]);
+  });
+
+  it("passes headers to every page", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ value: [1], "@odata.nextLink": nextLink(1) }),
+      jsonResponse({ value: [2] })
+    );
+
+    await collectGraphItems("/users?$count=true", ["User.Read"], {
+      headers: { ConsistencyLevel: "eventual" },
+    });
+
+    for (const request of requests) {
+      expect(request.headers.get("ConsistencyLevel")).toBe("eventual");
+    }
+  });
+});
+
+describe("collectGraphItems", () => {
+  it("stops fetching once maxItems are read", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ value: [1, 2, 3], "@odata.nextLink": nextLink(3) })
+    );
+
+    const items = await collectGraphItems("/me/messages", ["Mail.Read"], {
+      maxItems: 2,
+    });
+
+    expect(items).toEqual([1, 2]);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("answers a claims challenge raised mid-iteration", async () => {
+    const claims = { access_token: { nbf: { essential: true, value: "1" } } };
+    const requests = scriptFetch(
+      jsonResponse({ value: [1], "@odata.nextLink": nextLink(1) }),
+      claimsChallengeResponse(claims),
+      jsonResponse({ value: [2] })
+    );
+
+    const items = await collectGraphItems("/me/messages", ["Mail.Read"]);
+
+    expect(items).toEqual([1, 2]);
+    expect(requests[2].url).toBe(nextLink(1));
+  });
+});
@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+import type { AccountInfo } from "@azure/msal-browser";
+
+import {
+  accountMatchesIdentity,
+  readHostIdentity,
+  getActiveAccount,
+  isAccountMismatch,
+  refreshHostIdentity,
+  type HostIdentity,
+} from "@/auth";
+import { installFakeMsal, resetAuthState, testAccount } from "@/test/harness";
+
+const personal: AccountInfo = {
+  ...testAccount,
+  homeAccountId: "msa.9188040d",
+  tenantId: "9188040d-6c67-4c5b-b112-36a304b66dad",
+  localAccountId: "msa",
+  username: "adele@outlook.com",
+};
+
+function stubOffice(
+  authContext?: Partial<Office.AuthContext>,
+  email?: string
+) {
+  vi.stubGlobal("Office", {
+    auth: authContext && { getAuthContext: async () => authContext },
+    context: {
+      mailbox: email && { userProfile: { emailAddress: email } },
+    },
+  });
+}
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+describe("accountMatchesIdentity", () => {
+  const identity: HostIdentity = {
+    source: "authContext",
+    loginHint: "ADELE@contoso.com",
+    userPrincipalName: "ADELE@contoso.com",
+    tenantId: testAccount.tenantId,
+  };
+
+  it("matches on UPN case-insensitively within the tenant", () => {
+    expect(accountMatchesIdentity(testAccount, identity)).toBe(true);
+  });
+
+  it("rejects accounts from another tenant", () => {
+    expect(
+      accountMatchesIdentity({ ...testAccount, tenantId: "other" }, identity)
+    ).toBe(false);
+  });
+
+  it("treats the object ID as decisive when present", () => {
+    expect(
+      accountMatchesIdentity(testAccount, { ...identity, userObjectId: "x" })
+    ).toBe(false);
+  });
+});
+
+describe("readHostIdentity", () => {
+  it("falls back to the mailbox address without getAuthContext", async () => {
+    stubOffice(undefined, "adele@contoso.com");
+
+    await expect(readHostIdentity()).resolves.toEqual({
+      source: "mailbox",
+      loginHint: "adele@contoso.com",
+      emailAddress: "adele@contoso.com",
+    });
+  });
+});
+
+describe("getActiveAccount", () => {
+  it("picks the account matching the host, not the first", async () => {
+    installFakeMsal([personal, testAccount]);
+    stubOffice({
+      userPrincipalName: testAccount.username,
+      loginHint: testAccount.username,
+      tenantId: testAccount.tenantId,
+      userObjectId: testAccount.localAccountId,
+    });
+    await refreshHostIdentity();
+
+    expect(getActiveAccount()).toBe(testAccount);
+  });
+
+  it("picks nothing when several accounts match nobody", () => {
+    installFakeMsal([personal, testAccount]);
+
+    expect(getActiveAccount()).toBeNull();
+  });
+
+  it("flags an active account that is not the mailbox owner", async () => {
+    installFakeMsal([personal]);
+    stubOffice(undefined, "adele@contoso.com");
+    await refreshHostIdentity();
+
+    expect(isAccountMismatch(getActiveAccount())).toBe(true);
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  getProtectedResource,
+  resolveResourceUrl,
+  toAuthServiceError,
+  ConfigurationError,
+} from "@/auth";
+
+const resource = {
+  baseUrl: "https://graph.microsoft.com/v1.0",
+  scopes: ["User.Read"],
+  claimsKey: "graph",
+};
+
+describe("getProtectedResource", () => {
+  it("throws a ConfigurationError for unknown resources", () => {
+    const error = (() => {
+      try {
+        getProtectedResource("nope");
+      } catch (caught: unknown) {
+        return caught;
+      }
+    })();
+
+    expect(error).toBeInstanceOf(ConfigurationError);
+    expect(toAuthServiceError(error)).toBe(error);
+  });
+});
+
+describe("resolveResourceUrl", () => {
+  it("resolves paths against the base URL", () => {
+    expect(resolveResourceUrl(resource, "/me")).toBe(
+      "https://graph.microsoft.com/v1.0/me"
+    );
+    expect(resolveResourceUrl(resource, "me/messages")).toBe(
+      "https://graph.microsoft.com/v1.0/me/messages"
+    );
+  });
+
+  it("accepts absolute URLs on the resource's origin", () => {
+    const nextLink = "https://graph.microsoft.com/v1.0/me/messages?$skip=10";
+
+    expect(resolveResourceUrl(resource, nextLink)).toBe(nextLink);
+  });
+
+  it("refuses absolute URLs on another host", () => {
+    for (const url of [
+      "https://attacker.example/me",
+      "http://graph.microsoft.com/v1.0/me",
+      "https://graph.microsoft.com.attacker.example/v1.0/me",
+    ]) {
+      expect(() => resolveResourceUrl(resource, url)).toThrow(
+        ConfigurationError
+      );
+    }
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  callGraphWithClaimsRetry,
+  configureResponseCache,
+  logout,
+  storeClaimsChallenge,
+  switchAccount,
+  getActiveAccount,
+  login,
+} from "@/auth";
+import {
+  fakeJwt,
+  installFakeMsal,
+  makeAuthResult,
+  resetAuthState,
+  scriptFetch,
+  testAccount,
+} from "@/test/harness";
+
+/** A Graph response with an `ETag`. */
+function taggedResponse(body: unknown, etag: string): Response {
+  return new Response(JSON.stringify(body), {
+    headers: { "Content-Type": "application/json", ETag: etag },
+  });
+}
+
+const notModified = () => new Response(null, { status: 304 });
+
+const me = () =>
+  callGraphWithClaimsRetry<{ displayName: string }>("/me", ["User.Read"], {
+    cache: true,
+  });
+
+beforeEach(() => {
+  resetAuthState();
+  installFakeMsal();
+  configureResponseCache({ enabled: true });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("response cache", () => {
+  it("revalidates with If-None-Match and serves 304s from cache", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      notModified()
+    );
+
+    await me();
+    const second = await me();
+
+    expect(second.displayName).toBe("Adele");
+    expect(requests[0].headers.has("If-None-Match")).toBe(false);
+    expect(requests[1].headers.get("If-None-Match")).toBe('W/"1"');
+  });
+
+  it("replaces the entry when the resource changed", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      taggedResponse({ displayName: "Adele Vance" }, 'W/"2"'),
+      notModified()
+    );
+
+    await me();
+    expect((await me()).displayName).toBe("Adele Vance");
+    expect((await me()).displayName).toBe("Adele Vance");
+    expect(requests[2].headers.get("If-None-Match")).toBe('W/"2"');
+  });
+
+  it("keys entries by request headers", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ id: 1 }, 'W/"1"'),
+      taggedResponse({ id: 1 }, 'W/"1"')
+    );
+
+    await callGraphWithClaimsRetry("/me/messages/1", ["Mail.Read"], {
+      cache: true,
+    });
+    await callGraphWithClaimsRetry("/me/messages/1", ["Mail.Read"], {
+      cache: true,
+      headers: { Prefer: 'outlook.body-content-type="text"' },
+    });
+
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("keys entries by authentication context", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ accessToken: fakeJwt({ acrs: ["c1"] }) }),
+      makeAuthResult({ accessToken: fakeJwt({}) })
+    );
+    const requests = scriptFetch(
+      taggedResponse({ id: 1 }, 'W/"1"'),
+      taggedResponse({ id: 1 }, 'W/"1"')
+    );
+
+    await callGraphWithClaimsRetry("/me/messages/1", ["Mail.Read"], {
+      cache: true,
+      authContext: "c1",
+    });
+    await callGraphWithClaimsRetry("/me/messages/1", ["Mail.Read"], {
+      cache: true,
+    });
+
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("is not consulted while a claims challenge is pending", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      taggedResponse({ displayName: "Adele" }, 'W/"1"')
+    );
+    await me();
+
+    storeClaimsChallenge(
+      "graph",
+      JSON.stringify({ access_token: { nbf: { essential: true } } })
+    );
+    await me();
+
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("skips non-GET calls and calls that do not opt in", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ id: 1 }, 'W/"1"'),
+      taggedResponse({ id: 1 }, 'W/"1"'),
+      taggedResponse({ id: 1 }, 'W/"1"')
+    );
+
+    await callGraphWithClaimsRetry("/me", ["User.Read"]);
+    await callGraphWithClaimsRetry("/me", ["User.Read"], {
+      cache: true,
+      method: "POST",
+    });
+    await me();
+
+    expect(requests[2].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("is purged on sign-out", async () => {
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      taggedResponse({ displayName: "Adele" }, 'W/"1"')
+    );
+    await me();
+
+    await logout();
+    installFakeMsal();
+    await me();
+
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("is purged when the active account changes", async () => {
+    const other = { ...testAccount, homeAccountId: "other.utid" };
+    const msal = installFakeMsal([testAccount, other]);
+    msal.pca.setActiveAccount(testAccount);
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      taggedResponse({ displayName: "Adele" }, 'W/"1"')
+    );
+    await me();
+
+    switchAccount(other.homeAccountId);
+    switchAccount(testAccount.homeAccountId);
+    await me();
+
+    expect(getActiveAccount()).toBe(testAccount);
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+
+  it("is purged when sign-in picks another account", async () => {
+    const other = { ...testAccount, homeAccountId: "other.utid" };
+    const msal = installFakeMsal();
+    msal.pca.setActiveAccount(testAccount);
+    msal.onPopup(makeAuthResult({ account: other }));
+    const requests = scriptFetch(
+      taggedResponse({ displayName: "Adele" }, 'W/"1"'),
+      taggedResponse({ displayName: "Adele" }, 'W/"1"')
+    );
+    await me();
+
+    await login();
+    msal.pca.setActiveAccount(testAccount);
+    await me();
+
+    expect(requests[1].headers.has("If-None-Match")).toBe(false);
+  });
+});
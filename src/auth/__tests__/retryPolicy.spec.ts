@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import { fetchWithRetry, resolveRetryPolicy } from "@/auth";
+import { scriptFetch } from "@/test/harness";
+
+const url = "https://graph.microsoft.com/v1.0/me";
+
+// Deterministic backoff: always the full ceiling (100, 200, 400 ms…)
+const policy = resolveRetryPolicy({ baseDelayMs: 100, maxDelayMs: 1000 });
+
+const status = (code: number, headers: Record<string, string> = {}) =>
+  new Response(null, { status: code, headers });
+
+const networkError = () => {
+  throw new TypeError("Failed to fetch");
+};
+
+const send = (method = "GET", signal?: AbortSignal) =>
+  fetchWithRetry(url, () => ({ method }), policy, signal);
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  vi.spyOn(Math, "random").mockReturnValue(1);
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.restoreAllMocks();
+  vi.unstubAllGlobals();
+});
+
+describe("fetchWithRetry", () => {
+  it("retries 429 for any method", async () => {
+    const requests = scriptFetch(status(429), status(201));
+
+    const pending = send("POST");
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect((await pending).status).toBe(201);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("retries 5xx and network errors for idempotent methods only", async () => {
+    const requests = scriptFetch(status(503), networkError, status(200));
+    const pending = send("GET");
+    await vi.advanceTimersByTimeAsync(100 + 200);
+    expect((await pending).status).toBe(200);
+    expect(requests).toHaveLength(3);
+
+    scriptFetch(status(503));
+    expect((await send("POST")).status).toBe(503);
+
+    scriptFetch(networkError);
+    await expect(send("PATCH")).rejects.toThrow("Failed to fetch");
+  });
+
+  it("waits for a Retry-After in seconds", async () => {
+    const requests = scriptFetch(
+      status(429, { "Retry-After": "3" }),
+      status(200)
+    );
+
+    const pending = send();
+    await vi.advanceTimersByTimeAsync(2999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+    expect(requests).toHaveLength(2);
+  });
+
+  it("waits for a Retry-After HTTP date", async () => {
+    vi.setSystemTime(new Date("2024-05-01T10:00:00Z"));
+    const requests = scriptFetch(
+      status(503, { "Retry-After": "Wed, 01 May 2024 10:00:05 GMT" }),
+      status(200)
+    );
+
+    const pending = send();
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(requests).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect((await pending).status).toBe(200);
+  });
+
+  it("gives up on a Retry-After beyond the limit", async () => {
+    const requests = scriptFetch(status(429, { "Retry-After": "3600" }));
+
+    expect((await send()).status).toBe(429);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("returns the last response once the attempts are spent", async () => {
+    const requests = scriptFetch(
+      status(429),
+      status(429),
+      status(429),
+      status(429)
+    );
+
+    const pending = send();
+    await vi.advanceTimersByTimeAsync(100 + 200 + 400);
+
+    expect((await pending).status).toBe(429);
+    expect(requests).toHaveLength(policy.maxAttempts);
+  });
+
+  it("stops when aborted during the backoff", async () => {
+    const requests = scriptFetch(status(429, { "Retry-After": "10" }));
+    const controller = new AbortController();
+
+    const pending = send("GET", controller.signal);
+    const settled = expect(pending).rejects.toThrow("user left");
+    await vi.advanceTimersByTimeAsync(1000);
+    controller.abort(new Error("user left"));
+
+    await settled;
+    expect(requests).toHaveLength(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach } from "vitest";
+import {
+  AuthError,
+  InteractionRequiredAuthError,
+} from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  getAccounts,
+  getGrantedScopes,
+  getStoredClaimsChallenge,
+  logoutAll,
+  onSessionEnded,
+  storeClaimsChallenge,
+  toAuthServiceError,
+  InteractionRequiredError,
+  SessionRevokedError,
+  type SessionEndedEvent,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  testAccount,
+} from "@/test/harness";
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+describe("revocation errors", () => {
+  it.each([
+    ["AADSTS50057: User account is disabled.", "account_disabled"],
+    ["AADSTS50133: Session invalid (password change)", "password_changed"],
+    ["AADSTS53003: Blocked by Conditional Access", "policy_blocked"],
+    ["AADSTS50173: The provided grant has been revoked", "revoked"],
+  ])("maps %s", (message, reason) => {
+    const error = toAuthServiceError(new AuthError("invalid_grant", message));
+
+    expect(error).toBeInstanceOf(SessionRevokedError);
+    expect(error).toBeInstanceOf(InteractionRequiredError);
+    expect((error as SessionRevokedError).reason).toBe(reason);
+  });
+
+  it("leaves ordinary interaction-required errors alone", () => {
+    const error = toAuthServiceError(
+      new InteractionRequiredAuthError("interaction_required", "AADSTS50076")
+    );
+
+    expect(error).not.toBeInstanceOf(SessionRevokedError);
+  });
+});
+
+describe("session end", () => {
+  it("signs the account out when the interactive retry fails", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult({ scopes: ["User.Read"] }),
+      new InteractionRequiredAuthError("interaction_required")
+    );
+    msal.onPopup(
+      new AuthError("invalid_grant", "AADSTS50057: User account is disabled.")
+    );
+    const events: SessionEndedEvent[] = [];
+    const unsubscribe = onSessionEnded((event) => events.push(event));
+
+    await acquireToken(["User.Read"]);
+    storeClaimsChallenge(
+      "graph",
+      JSON.stringify({ access_token: { nbf: { essential: true } } })
+    );
+    await expect(acquireToken(["User.Read"])).rejects.toBeInstanceOf(
+      SessionRevokedError
+    );
+    unsubscribe();
+
+    expect(events).toHaveLength(1);
+    expect(events[0].reason).toBe("account_disabled");
+    expect(events[0].account).toBe(testAccount);
+    expect(getAccounts()).toEqual([]);
+    expect(getGrantedScopes(testAccount)).toEqual([]);
+    expect(getStoredClaimsChallenge("graph")).toBeUndefined();
+  });
+
+  it("ends the session once for concurrent failures", async () => {
+    const msal = installFakeMsal();
+    const revoked = new AuthError("invalid_grant", "AADSTS50173: revoked");
+    msal.onSilent(revoked, revoked);
+    let ended = 0;
+    const unsubscribe = onSessionEnded(() => ended++);
+
+    await Promise.allSettled([
+      acquireToken(["User.Read"], "graph", { interactive: false }),
+      acquireToken(["Mail.Read"], "graph", { interactive: false }),
+    ]);
+    unsubscribe();
+
+    expect(ended).toBe(1);
+  });
+
+  it("signs every account out with logoutAll", async () => {
+    const other = { ...testAccount, homeAccountId: "other.utid" };
+    installFakeMsal([testAccount, other]);
+
+    await logoutAll();
+
+    expect(getAccounts()).toEqual([]);
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+
+import {
+  acquireToken,
+  configureTokenRefresh,
+  decodeAccessToken,
+  isCaeToken,
+  getTokenStatus,
+  DEFAULT_REFRESH_MARGIN_MS,
+} from "@/auth";
+import {
+  installFakeMsal,
+  resetAuthState,
+  makeAuthResult,
+  fakeJwt,
+  testAccount,
+} from "@/test/harness";
+
+const caeToken = fakeJwt({
+  exp: 1_900_000_000,
+  tid: "tenant-id",
+  scp: "User.Read Mail.Read",
+  xms_cc: ["CP1"],
+  acrs: ["c1"],
+});
+
+describe("decodeAccessToken", () => {
+  it("reads the claims the add-in uses", () => {
+    const claims = decodeAccessToken(caeToken);
+
+    expect(claims).toEqual({
+      exp: 1_900_000_000,
+      iat: undefined,
+      tid: "tenant-id",
+      scp: ["User.Read", "Mail.Read"],
+      xmsCc: ["CP1"],
+      acrs: ["c1"],
+    });
+    expect(isCaeToken(claims)).toBe(true);
+  });
+
+  it("returns null for opaque tokens", () => {
+    expect(decodeAccessToken("EwBwA8l6BAAU")).toBeNull();
+    expect(decodeAccessToken("a.!!!.c")).toBeNull();
+    expect(isCaeToken(null)).toBe(false);
+  });
+});
+
+describe("proactive refresh", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    resetAuthState();
+    configureTokenRefresh({ enabled: true });
+  });
+
+  afterEach(() => {
+    resetAuthState();
+    vi.useRealTimers();
+  });
+
+  it("publishes the status and refreshes silently before expiry", async () => {
+    const msal = installFakeMsal();
+    const expiresOn = new Date(Date.now() + 60 * 60 * 1000);
+    msal.onSilent(makeAuthResult({ accessToken: caeToken, expiresOn }));
+
+    const result = await acquireToken(["User.Read"]);
+
+    expect(result.tokenClaims?.acrs).toEqual(["c1"]);
+    const status = getTokenStatus(testAccount.homeAccountId);
+    expect(status?.caeCapable).toBe(true);
+    expect(status?.refreshAt?.getTime()).toBe(
+      expiresOn.getTime() - DEFAULT_REFRESH_MARGIN_MS
+    );
+
+    await vi.advanceTimersByTimeAsync(55 * 60 * 1000);
+
+    expect(msal.silentRequests).toHaveLength(2);
+    expect(msal.silentRequests[1].forceRefresh).toBe(true);
+    expect(msal.popupRequests).toHaveLength(0);
+  });
+
+  it("records a failed refresh without prompting", async () => {
+    const msal = installFakeMsal();
+    msal.onSilent(
+      makeAuthResult(),
+      new InteractionRequiredAuthError("interaction_required")
+    );
+
+    await acquireToken(["User.Read"]);
+    await vi.advanceTimersByTimeAsync(60 * 60 * 1000);
+
+    const status = getTokenStatus(testAccount.homeAccountId);
+    expect(status?.refreshAt).toBeNull();
+    expect(status?.refreshError).toBeDefined();
+    expect(msal.popupRequests).toHaveLength(0);
+  });
+});
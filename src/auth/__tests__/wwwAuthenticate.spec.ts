@@ -0,0 +1,56 @@
+import { describe, it, expect } from "vitest";
+
+import {
+  parseWwwAuthenticate,
+  classifyAuthChallenge,
+  parseClaimsChallengeFromHeader,
+} from "@/auth";
+
+const claims = '{"access_token":{"nbf":{"essential":true,"value":"1"}}}';
+const base64url = btoa(claims)
+  .replace(/\+/g, "-")
+  .replace(/\//g, "_")
+  .replace(/=+$/, "");
+
+describe("parseWwwAuthenticate", () => {
+  it("parses multiple challenges with quoted, escaped and token values", () => {
+    const [bearer, pop] = parseWwwAuthenticate(
+      `Bearer realm="", error="insufficient_claims", claims="${base64url}", ` +
+        'PoP realm="a\\"b", nonce=abc'
+    );
+
+    expect(bearer.scheme).toBe("Bearer");
+    expect(bearer.error).toBe("insufficient_claims");
+    expect(bearer.claims).toBe(claims);
+    expect(pop.scheme).toBe("PoP");
+    expect(pop.realm).toBe('a"b');
+    expect(pop.params.nonce).toBe("abc");
+  });
+
+  it("handles token68 and parameterless challenges", () => {
+    const challenges = parseWwwAuthenticate("Negotiate abc==, Bearer");
+
+    expect(challenges.map((c) => c.scheme)).toEqual(["Negotiate", "Bearer"]);
+    expect(challenges[0].token68).toBe("abc==");
+  });
+
+  it("classifies challenges by error", () => {
+    const [cae, invalid] = parseWwwAuthenticate(
+      `Bearer error="insufficient_claims", claims="${base64url}", ` +
+        'Bearer error="invalid_token", error_description="expired"'
+    );
+
+    expect(classifyAuthChallenge(cae)).toBe("claims");
+    expect(classifyAuthChallenge(invalid)).toBe("invalid_token");
+  });
+});
+
+describe("parseClaimsChallengeFromHeader", () => {
+  it("ignores claims on non-CAE challenges", () => {
+    expect(
+      parseClaimsChallengeFromHeader(
+        `Bearer error="invalid_token", claims="${base64url}"`
+      )
+    ).toBeUndefined();
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * apiRequest.ts
+ * ─────────────
+ * Request-options shape for calls made through
+ * `callApiWithClaimsRetry()`, plus helpers that turn those options
+ * into a `fetch` init and read the response in the requested format.
+ *
+ * Bodies are kept as re-sendable values (no streams) so the one-shot
+ * CAE retry can replay the exact same request.
+ */
+
+import type { RetryPolicy } from "./retryPolicy";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+export type ApiMethod = "GET" | "POST" | "PUT" | "PATCH" | "DELETE";
+
+/** How the response body should be read. `"none"` skips the body. */
+export type ApiResponseType = "json" | "text" | "blob" | "arrayBuffer" | "none";
+
+/** Binary / raw request body.  Streams are excluded (not replayable). */
+export type ApiBinaryBody =
+  | Blob
+  | ArrayBuffer
+  | ArrayBufferView
+  | FormData
+  | URLSearchParams
+  | string;
+
+export interface ApiRequestOptions {
+  /** HTTP method (default `"GET"`). */
+  method?: ApiMethod;
+  /** Value serialised with `JSON.stringify` and sent as `application/json`. */
+  json?: unknown;
+  /** Raw body (e.g. an attachment upload).  Ignored when `json` is set. */
+  body?: ApiBinaryBody;
+  /** Content-Type for `body` (e.g. `"application/octet-stream"`). */
+  contentType?: string;
+  /** Extra headers, e.g. `Prefer` or `ConsistencyLevel`. */
+  headers?: Record<string, string>;
+  /**
+   * How to read the response (default `"json"`).  Empty responses
+   * (204, or a zero-length body) resolve to `undefined`.
+   */
+  responseType?: ApiResponseType;
+  /** Token scopes (defaults to the resource's declared scopes). */
+  scopes?: string[];
+  /** Authentication context the call requires (step-up, e.g. "c1"). */
+  authContext?: string;
+  /**
+   * Per-call overrides of the throttling / transient-failure retry
+   * policy, or `false` to disable those retries.
+   */
+  retry?: Partial<RetryPolicy> | false;
+  /** Cancels the request, including any pending backoff delay. */
+  signal?: AbortSignal;
+  /**
+   * `true` lets this GET use the persistent response cache when it is
+   * enabled (see `responseCache.ts`).  Calls are not cached otherwise.
+   */
+  cache?: boolean;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Helpers                                                           */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Build a fresh `RequestInit` for one attempt.  Called once per
+ * attempt so the body is re-sent on the claims-challenge retry.
+ */
+export function buildRequestInit(
+  options: ApiRequestOptions,
+  accessToken: string
+): RequestInit {
+  const headers = new Headers(options.headers);
+  headers.set("Authorization", `Bearer ${accessToken}`);
+
+  let body: BodyInit | undefined;
+  if (options.json !== undefined) {
+    headers.set("Content-Type", "application/json");
+    body = JSON.stringify(options.json);
+  } else if (options.body !== undefined) {
+    if (options.contentType) {
+      headers.set("Content-Type", options.contentType);
+    }
+    body = options.body;
+  }
+
+  return {
+    method: options.method ?? "GET",
+    headers,
+    body,
+  };
+}
+
+/**
+ * Read `response` according to `responseType`.  Returns `undefined`
+ * for 204 / 205 responses, zero-length bodies and `"none"`.
+ */
+export async function readResponseBody<T>(
+  response: Response,
+  responseType: ApiResponseType = "json"
+): Promise<T> {
+  if (
+    responseType === "none" ||
+    response.status === 204 ||
+    response.status === 205 ||
+    response.headers.get("Content-Length") === "0"
+  ) {
+    return undefined as T;
+  }
+
+  switch (responseType) {
+    case "text":
+      return (await response.text()) as T;
+    case "blob":
+      return (await response.blob()) as T;
+    case "arrayBuffer":
+      return (await response.arrayBuffer()) as T;
+    case "json": {
+      // Some endpoints return 200/202 with an empty body
+      const text = await response.text();
+      return (text ? JSON.parse(text) : undefined) as T;
+    }
+  }
+}
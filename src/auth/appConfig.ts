@@ -0,0 +1,302 @@
+/**
+ * appConfig.ts
+ * ────────────
+ * Runtime configuration: client ID, tenant and national cloud are read
+ * at start-up from Vite env variables (`VITE_*`) and, optionally, a
+ * JSON file fetched from `VITE_CONFIG_URL`, instead of being compiled
+ * into `authConfig.ts`.  One build can therefore serve several tenants
+ * and clouds (public, US Government, China).
+ *
+ * Precedence: built-in defaults < env variables < fetched JSON.
+ *
+ * `VITE_CAE_EMULATOR=true` (dev server only) points Graph at the local
+ * CAE emulator and swaps MSAL for its stub token provider (see
+ * `emulatorClient.ts`).
+ *
+ * Cloud endpoints: https://learn.microsoft.com/graph/deployments
+ */
+
+import {
+  msalConfig,
+  loginRequest,
+  graphScopes,
+  PLACEHOLDER_CLIENT_ID,
+} from "./authConfig";
+import {
+  getProtectedResource,
+  registerProtectedResource,
+} from "./resourceRegistry";
+import { ConfigurationError } from "./errors";
+import { OIDC_SCOPES } from "./consent";
+import { getEmulatorBaseUrl } from "./emulatorClient";
+
+/* ------------------------------------------------------------------ */
+/*  National clouds                                                   */
+/* ------------------------------------------------------------------ */
+
+export type CloudName = "public" | "usgov" | "china";
+
+export interface CloudEnvironment {
+  /** Entra ID authority host, e.g. "https://login.microsoftonline.com". */
+  authorityHost: string;
+  /** Microsoft Graph root, e.g. "https://graph.microsoft.com". */
+  graphEndpoint: string;
+}
+
+export const cloudEnvironments: Record<CloudName, CloudEnvironment> = {
+  public: {
+    authorityHost: "https://login.microsoftonline.com",
+    graphEndpoint: "https://graph.microsoft.com",
+  },
+  usgov: {
+    authorityHost: "https://login.microsoftonline.us",
+    graphEndpoint: "https://graph.microsoft.us",
+  },
+  china: {
+    authorityHost: "https://login.chinacloudapi.cn",
+    graphEndpoint: "https://microsoftgraph.chinacloudapi.cn",
+  },
+};
+
+/* ------------------------------------------------------------------ */
+/*  Configuration shape                                               */
+/* ------------------------------------------------------------------ */
+
+export interface AppConfig {
+  /** Application (client) ID of the Entra app registration. */
+  clientId: string;
+  /** Tenant ID / domain, or "common" / "organizations". */
+  tenantId: string;
+  /** National cloud the tenant lives in. */
+  cloud: CloudName;
+  /** Graph API version segment. */
+  graphVersion: string;
+  /** Use the dev server's CAE emulator instead of Entra ID and Graph. */
+  emulator: boolean;
+}
+
+const defaultConfig: AppConfig = {
+  clientId: PLACEHOLDER_CLIENT_ID,
+  tenantId: "common",
+  cloud: "public",
+  graphVersion: "v1.0",
+  emulator: false,
+};
+
+let currentConfig: AppConfig = { ...defaultConfig };
+
+/** The configuration currently applied. */
+export function getAppConfig(): Readonly<AppConfig> {
+  return currentConfig;
+}
+
+/** Authority URL for a configuration. */
+export function getAuthority(config: AppConfig): string {
+  return `${cloudEnvironments[config.cloud].authorityHost}/${config.tenantId}`;
+}
+
+/** Graph base URL (root + version) for a configuration. */
+export function getGraphBaseUrl(config: AppConfig): string {
+  if (config.emulator) {
+    return `${getEmulatorBaseUrl()}/${config.graphVersion}`;
+  }
+  const { graphEndpoint } = cloudEnvironments[config.cloud];
+  return `${graphEndpoint}/${config.graphVersion}`;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Loading                                                           */
+/* ------------------------------------------------------------------ */
+
+/** Read the `VITE_*` variables into a partial configuration. */
+export function readEnvConfig(
+  env: ImportMetaEnv = import.meta.env
+): Partial<AppConfig> {
+  const config: Partial<AppConfig> = {};
+  if (env.VITE_CLIENT_ID) config.clientId = env.VITE_CLIENT_ID;
+  if (env.VITE_TENANT_ID) config.tenantId = env.VITE_TENANT_ID;
+  if (env.VITE_CLOUD) config.cloud = env.VITE_CLOUD.toLowerCase() as CloudName;
+  if (env.VITE_GRAPH_VERSION) config.graphVersion = env.VITE_GRAPH_VERSION;
+  if (env.DEV && env.VITE_CAE_EMULATOR === "true") config.emulator = true;
+  return config;
+}
+
+const RUNTIME_STRING_FIELDS = [
+  "clientId",
+  "tenantId",
+  "cloud",
+  "graphVersion",
+] as const;
+
+/**
+ * Type-check a fetched runtime config JSON.  Unknown fields are
+ * ignored; `emulator` is only accepted in development builds, so a
+ * remote file cannot switch production to the stub token provider.
+ */
+export function parseRuntimeConfig(
+  json: unknown,
+  env: ImportMetaEnv = import.meta.env
+): Partial<AppConfig> {
+  if (typeof json !== "object" || json === null || Array.isArray(json)) {
+    throw new ConfigurationError("The runtime config must be a JSON object.");
+  }
+  const raw = json as Record<string, unknown>;
+  const config: Partial<AppConfig> = {};
+
+  for (const field of RUNTIME_STRING_FIELDS) {
+    const value = raw[field];
+    if (value === undefined) continue;
+    if (typeof value !== "string") {
+      throw new ConfigurationError(
+        `"${field}" in the runtime config must be a string.`
+      );
+    }
+    if (field === "cloud") {
+      config.cloud = value.toLowerCase() as CloudName;
+    } else {
+      config[field] = value;
+    }
+  }
+
+  if (raw.emulator !== undefined) {
+    if (!env.DEV || typeof raw.emulator !== "boolean") {
+      throw new ConfigurationError(
+        "The runtime config cannot set \"emulator\" – use " +
+          "VITE_CAE_EMULATOR on the dev server."
+      );
+    }
+    config.emulator = raw.emulator;
+  }
+
+  return config;
+}
+
+/**
+ * Check a merged configuration, throwing a `ConfigurationError` with
+ * a message that says exactly what to fix.  `emulator` is refused
+ * unless `env` is a development build.
+ */
+export function validateAppConfig(
+  config: Partial<AppConfig>,
+  env: ImportMetaEnv = import.meta.env
+): AppConfig {
+  const merged = { ...defaultConfig, ...config };
+
+  if (merged.emulator && !env.DEV) {
+    throw new ConfigurationError(
+      "The CAE emulator is only available on the dev server."
+    );
+  }
+
+  // The emulator issues its own tokens – no app registration needed
+  const needsClientId = !merged.emulator;
+  if (
+    needsClientId &&
+    (!merged.clientId || merged.clientId === PLACEHOLDER_CLIENT_ID)
+  ) {
+    throw new ConfigurationError(
+      "The client ID is still the placeholder. Set VITE_CLIENT_ID in " +
+        ".env.local (or clientId in the runtime config JSON) to your app " +
+        "registration's Application (client) ID."
+    );
+  }
+  if (!(merged.cloud in cloudEnvironments)) {
+    throw new ConfigurationError(
+      `Unknown cloud "${merged.cloud}". Use one of: ` +
+        Object.keys(cloudEnvironments).join(", ")
+    );
+  }
+  if (!merged.tenantId) {
+    throw new ConfigurationError("The tenant ID must not be empty.");
+  }
+
+  return merged;
+}
+
+/**
+ * Load, validate and apply the configuration.  Call once at start-up,
+ * before the first `getMsalInstance()`.
+ *
+ * @param configUrl  JSON file with `AppConfig` fields (defaults to
+ *                   `VITE_CONFIG_URL`; skipped when neither is set).
+ */
+export async function loadAppConfig(
+  configUrl: string | undefined = import.meta.env.VITE_CONFIG_URL
+): Promise<AppConfig> {
+  let fetched: Partial<AppConfig> = {};
+
+  if (configUrl) {
+    const response = await fetch(configUrl, { cache: "no-cache" });
+    if (!response.ok) {
+      throw new ConfigurationError(
+        `Could not load runtime config from ${configUrl} ` +
+          `(HTTP ${response.status}).`
+      );
+    }
+    fetched = parseRuntimeConfig(await response.json());
+  }
+
+  const config = validateAppConfig({ ...readEnvConfig(), ...fetched });
+  applyAppConfig(config);
+  return config;
+}
+
+let appConfigPromise: Promise<AppConfig> | null = null;
+
+/**
+ * `loadAppConfig()` once per runtime, for entry points without a
+ * start-up hook (ribbon commands, event handlers).  A failed load is
+ * retried on the next call.
+ */
+export function ensureAppConfig(): Promise<AppConfig> {
+  appConfigPromise ??= loadAppConfig().catch((error: unknown) => {
+    appConfigPromise = null;
+    throw error;
+  });
+  return appConfigPromise;
+}
+
+/**
+ * Push a validated configuration into the MSAL config, the Graph
+ * resource registration and the Graph scope lists.
+ */
+export function applyAppConfig(config: AppConfig): void {
+  currentConfig = config;
+
+  msalConfig.auth.clientId = config.clientId;
+  msalConfig.auth.authority = getAuthority(config);
+
+  const graphEndpoint = cloudEnvironments[config.cloud].graphEndpoint;
+  registerProtectedResource("graph", {
+    ...getProtectedResource("graph"),
+    baseUrl: getGraphBaseUrl(config),
+  });
+
+  // Outside the public cloud, bare Graph scopes resolve to the wrong
+  // resource – qualify them with the national Graph endpoint.  Arrays
+  // are updated in place so every holder of a reference sees the change.
+  for (const scopes of [loginRequest.scopes, ...Object.values(graphScopes)]) {
+    const qualified = qualifyGraphScopes(scopes, graphEndpoint);
+    scopes.splice(0, scopes.length, ...qualified);
+  }
+}
+
+/**
+ * Prefix bare Graph scopes (e.g. "Mail.Read") with `graphEndpoint`
+ * unless it is the public cloud.  Already-qualified scopes and OIDC
+ * scopes are left untouched.
+ */
+export function qualifyGraphScopes(
+  scopes: string[],
+  graphEndpoint: string
+): string[] {
+  const bare = (scope: string) =>
+    scope.replace(/^https:\/\/[^/]+\//, "");
+
+  return scopes.map((scope) => {
+    if (OIDC_SCOPES.includes(scope)) return scope;
+    return graphEndpoint === cloudEnvironments.public.graphEndpoint
+      ? bare(scope)
+      : `${graphEndpoint}/${bare(scope)}`;
+  });
+}
@@ -2,26 +2,38 @@
  * authConfig.ts
  * ─────────────
  * MSAL configuration for Nested App Authentication (NAA) in an
- * Office Add-in.  Update the clientId and (optionally) tenantId
- * before deploying.
+ * Office Add-in.  The client ID, tenant and cloud are applied at
+ * start-up from runtime configuration (see `appConfig.ts`); the values
+ * below are only defaults.
  *
  * NAA docs: https://learn.microsoft.com/office/dev/add-ins/develop/enable-nested-app-authentication-in-your-add-in
  */
 
-import type { Configuration, PopupRequest } from "@azure/msal-browser";
+import {
+  LogLevel,
+  type Configuration,
+  type PopupRequest,
+} from "@azure/msal-browser";
+
+import { buildAuthContextClaims } from "./authContext";
+import { recordDiagnostic } from "./diagnostics";
 
 /* ------------------------------------------------------------------ */
-/*  Azure AD app registration values – CHANGE THESE                   */
+/*  Azure AD app registration defaults                                */
 /* ------------------------------------------------------------------ */
 
+/** Placeholder shipped in the repo – start-up validation rejects it. */
+export const PLACEHOLDER_CLIENT_ID = "CLIENT ID";
+
 /**
- * The Application (client) ID from your Azure AD app registration.
+ * Default Application (client) ID.  Set `VITE_CLIENT_ID` (or
+ * `clientId` in the runtime config JSON) instead of editing this.
  */
-export const CLIENT_ID = "CLIENT ID";
+export const CLIENT_ID = PLACEHOLDER_CLIENT_ID;
 
 /**
- * Authority URL. Use "common" for multi-tenant, or replace with your
- * tenant ID / domain for single-tenant.
+ * Default authority (public cloud, multi-tenant).  Replaced at
+ * start-up from `VITE_TENANT_ID` / `VITE_CLOUD`.
  */
 export const AUTHORITY = "https://login.microsoftonline.com/common";
 
@@ -39,13 +51,19 @@ export const msalConfig: Configuration = {
   cache: {
     cacheLocation: "localStorage", // Recommended for Office add-ins
   },
-  // Uncomment for verbose logging during development:
-  // system: {
-  //   loggerOptions: {
-  //     logLevel: LogLevel.Verbose,
-  //     loggerCallback: (_level, message) => console.log(message),
-  //   },
-  // },
+  system: {
+    // MSAL log lines go to the diagnostics buffer (see the Diagnostics
+    // page).  PII logging stays off; raise the level to Verbose when
+    // debugging locally.
+    loggerOptions: {
+      logLevel: import.meta.env.DEV ? LogLevel.Info : LogLevel.Warning,
+      piiLoggingEnabled: false,
+      loggerCallback: (level, message, containsPii) => {
+        if (containsPii) return;
+        recordDiagnostic("msal", message, { level: LogLevel[level] });
+      },
+    },
+  },
 };
 
 /* ------------------------------------------------------------------ */
@@ -61,20 +79,111 @@ export const loginRequest: PopupRequest = {
 export const graphScopes = {
   userRead: ["User.Read"],
   mailRead: ["Mail.Read"],
+  mailReadWrite: ["Mail.ReadWrite"],
+  /** Mail in shared mailboxes and mailboxes the user is a delegate of. */
+  mailReadShared: ["Mail.Read.Shared"],
+  mailReadWriteShared: ["Mail.ReadWrite.Shared"],
+};
+
+/**
+ * Scopes each feature needs, requested only when the feature is used
+ * (incremental consent).  Entries share the `graphScopes` arrays so
+ * national-cloud qualification applies to them too.
+ */
+export const featureScopes = {
+  /** Profile page (`/me`). */
+  profile: graphScopes.userRead,
+  /** Reading messages through Graph. */
+  readMail: graphScopes.mailRead,
+  /** Flagging / categorising messages (ribbon commands). */
+  organiseMail: graphScopes.mailReadWrite,
+  /** Reading messages in a shared or delegated mailbox. */
+  readSharedMail: graphScopes.mailReadShared,
+  /** Flagging / categorising in a shared or delegated mailbox. */
+  organiseSharedMail: graphScopes.mailReadWriteShared,
+} satisfies Record<string, string[]>;
+
+export type FeatureId = keyof typeof featureScopes;
+
+/**
+ * Conditional Access authentication contexts that sensitive actions
+ * step up to (see `authContext.ts`).  The IDs are defined by the
+ * tenant administrator.
+ */
+export const authContexts = {
+  /** Exporting mail, sending on behalf of a shared mailbox. */
+  sensitiveAction: "c1",
+};
+
+/* ------------------------------------------------------------------ */
+/*  Protected resources (CAE-enabled APIs)                            */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Describes an API protected by Azure AD that the add-in calls with
+ * claims-challenge support.
+ */
+export interface ProtectedResource {
+  /** Base URL that request paths are resolved against (no trailing slash). */
+  baseUrl: string;
+  /** Default scopes requested when calling this resource. */
+  scopes: string[];
+  /** Key under which claims challenges for this resource are stored. */
+  claimsKey: string;
+}
+
+/** Microsoft Graph v1.0 endpoint (public cloud; see `appConfig.ts`). */
+export const GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+
+/**
+ * Resources known at start-up, keyed by resource ID.  Add your own
+ * APIs here or register them at runtime with
+ * `registerProtectedResource()`.
+ */
+export const protectedResources: Record<string, ProtectedResource> = {
+  graph: {
+    baseUrl: GRAPH_BASE,
+    scopes: graphScopes.userRead,
+    claimsKey: "graph",
+  },
+  // Example – a custom CAE-enabled API:
+  // ordersApi: {
+  //   baseUrl: "https://orders.contoso.com/api",
+  //   scopes: ["api://<orders-api-client-id>/Orders.Read"],
+  //   claimsKey: "ordersApi",
+  // },
+  // Example – on-send compliance API (see `events/complianceCheck.ts`):
+  // compliance: {
+  //   baseUrl: "https://compliance.contoso.com/api",
+  //   scopes: ["api://<compliance-api-client-id>/Messages.Check"],
+  //   claimsKey: "compliance",
+  // },
+  // Example – SharePoint Online:
+  // sharepoint: {
+  //   baseUrl: "https://contoso.sharepoint.com/_api",
+  //   scopes: ["https://contoso.sharepoint.com/AllSites.Read"],
+  //   claimsKey: "sharepoint",
+  // },
 };
 
 /**
  * Build a Graph API request object, optionally injecting a claims
- * challenge string (base-64-decoded JSON).
+ * challenge string (base-64-decoded JSON) and requesting a Conditional
+ * Access authentication context (`acrs`, e.g. "c1" – see
+ * `authContext.ts`).
  */
 export function buildGraphRequest(
   scopes: string[],
-  claimsChallenge?: string
+  claimsChallenge?: string,
+  authContext?: string
 ): PopupRequest {
   const request: PopupRequest = { scopes };
+  const claims = authContext
+    ? buildAuthContextClaims(authContext, claimsChallenge)
+    : claimsChallenge;
 
-  if (claimsChallenge) {
-    request.claims = claimsChallenge;
+  if (claims) {
+    request.claims = claims;
   }
 
   return request;
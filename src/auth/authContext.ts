@@ -0,0 +1,60 @@
+/**
+ * authContext.ts
+ * ──────────────
+ * Conditional Access authentication contexts (step-up).  A sensitive
+ * operation can require an authentication context such as `c1`
+ * ("require MFA"): the token request asks for it through the `acrs`
+ * claim, and the contexts a token satisfies come back in its `acrs`
+ * claim.
+ *
+ *   { "access_token": { "acrs": { "essential": true, "value": "c1" } } }
+ *
+ * Reference:
+ *  - https://learn.microsoft.com/entra/identity-platform/developer-guide-conditional-access-authentication-context
+ */
+
+import { mergeClaims } from "./claimsStore";
+import { ConfigurationError } from "./errors";
+import type { AccessTokenClaims } from "./tokenStatus";
+
+/** Authentication context IDs are `c1` … `c99`. */
+const AUTH_CONTEXT_ID = /^c([1-9]|[1-9][0-9])$/;
+
+export function isAuthContextId(value: string): boolean {
+  return AUTH_CONTEXT_ID.test(value);
+}
+
+/** Throw a `ConfigurationError` unless `value` is `c1` … `c99`. */
+export function assertAuthContextId(value: string): void {
+  if (!isAuthContextId(value)) {
+    throw new ConfigurationError(
+      `Invalid authentication context "${value}" – use c1 … c99.`
+    );
+  }
+}
+
+/**
+ * The claims request for `authContext`, merged into `existingClaims`
+ * (e.g. a stored CAE challenge) when given.
+ *
+ * @throws ConfigurationError for anything other than `c1` … `c99`.
+ */
+export function buildAuthContextClaims(
+  authContext: string,
+  existingClaims?: string
+): string {
+  assertAuthContextId(authContext);
+
+  const claims = JSON.stringify({
+    access_token: { acrs: { essential: true, value: authContext } },
+  });
+  return existingClaims ? mergeClaims(existingClaims, claims) : claims;
+}
+
+/** Whether a token with `claims` satisfies `authContext`. */
+export function tokenSatisfiesAuthContext(
+  claims: AccessTokenClaims | null | undefined,
+  authContext: string
+): boolean {
+  return claims?.acrs.includes(authContext) ?? false;
+}
@@ -6,59 +6,199 @@
  *
  *  1. Silent & interactive token acquisition.
  *  2. Automatic claims-challenge handling (CAE).
- *  3. Account management helpers.
+ *  3. Account management helpers (matched to the Office host user).
+ *  4. Calls to any registered protected API with one-shot CAE retry.
+ *  5. Background token refresh shortly before expiry.
  *
  * NAA uses `createNestablePublicClientApplication` which lets the
  * add-in delegate auth to the host Office app (Outlook, Word, etc.)
- * instead of opening a popup or redirect.
+ * instead of opening a popup or redirect.  Hosts without NAA fall back
+ * to sign-in through the Office dialog API with the same contract.
  */
 
 import {
   createNestablePublicClientApplication,
+  createStandardPublicClientApplication,
   InteractionRequiredAuthError,
   type IPublicClientApplication,
   type AccountInfo,
   type AuthenticationResult,
   type PopupRequest,
+  type SilentRequest,
 } from "@azure/msal-browser";
 
 import { msalConfig, loginRequest, buildGraphRequest } from "./authConfig";
+import {
+  assertAuthContextId,
+  buildAuthContextClaims,
+  tokenSatisfiesAuthContext,
+} from "./authContext";
 import {
   getStoredClaimsChallenge,
   storeClaimsChallenge,
   clearClaimsChallenge,
+  getAllStoredClaimsChallenges,
   handleClaimsChallengeFromResponse,
+  getAuthChallengesFromResponse,
 } from "./claimsManager";
+import { recordGrantedScopes, clearGrantedScopes } from "./consent";
+import { recordDiagnostic } from "./diagnostics";
+import {
+  decodeAccessToken,
+  isCaeToken,
+  setTokenStatus,
+  getTokenStatus,
+  clearTokenStatuses,
+  type AccessTokenClaims,
+} from "./tokenStatus";
+import {
+  detectAuthMode,
+  createDialogFallbackClient,
+  type AuthMode,
+} from "./dialogFallback";
+import { createEmulatorClient } from "./emulatorClient";
+import { getAppConfig } from "./appConfig";
+import {
+  readHostIdentity,
+  findMatchingAccount,
+  accountMatchesIdentity,
+  type HostIdentity,
+} from "./hostIdentity";
+import {
+  AuthServiceError,
+  InteractionRequiredError,
+  ApiError,
+  AuthChallengeError,
+  ClaimsChallengeUnresolvedError,
+  SessionRevokedError,
+  toAuthServiceError,
+  type SessionRevocationReason,
+} from "./errors";
+import { classifyAuthChallenge, findClaimsChallenge } from "./wwwAuthenticate";
+import { fetchWithRetry, resolveRetryPolicy } from "./retryPolicy";
+import { getProtectedResource, resolveResourceUrl } from "./resourceRegistry";
+import {
+  buildRequestInit,
+  readResponseBody,
+  type ApiRequestOptions,
+} from "./apiRequest";
+import {
+  isCacheableRequest,
+  responseCacheKey,
+  readCachedResponse,
+  writeCachedResponse,
+  touchCachedResponse,
+  toCachedResponse,
+  purgeResponseCache,
+} from "./responseCache";
 
 /* ================================================================== */
 /*  Singleton MSAL instance                                           */
 /* ================================================================== */
 
 let msalInstance: IPublicClientApplication | null = null;
+let msalInstancePromise: Promise<IPublicClientApplication> | null = null;
+let authMode: AuthMode | null = null;
 
 /**
- * Initialise (or return) the singleton MSAL NAA instance.
+ * Initialise (or return) the singleton MSAL instance.
  *
  * Must be called **after** `Office.onReady()` because NAA relies on
- * the Office host bridge being available.
+ * the Office host bridge being available.  Hosts without the
+ * `NestedAppAuth` requirement set get the Office-dialog fallback
+ * client instead (see `dialogFallback.ts`).  Concurrent callers share
+ * the same initialisation.
  */
 export async function getMsalInstance(): Promise<IPublicClientApplication> {
   if (msalInstance) {
     return msalInstance;
   }
 
-  // NAA entry-point – the host Office app acts as the broker
-  msalInstance = await createNestablePublicClientApplication(msalConfig);
-  return msalInstance;
+  msalInstancePromise ??= createClient()
+    .then(async (pca) => {
+      // Read the host identity up-front so account selection can match it
+      await refreshHostIdentity();
+      return (msalInstance = pca);
+    })
+    .catch((error: unknown) => {
+      throw toAuthServiceError(error);
+    })
+    .finally(() => (msalInstancePromise = null));
+
+  return msalInstancePromise;
+}
+
+async function createClient(): Promise<IPublicClientApplication> {
+  authMode = getAppConfig().emulator ? "emulator" : detectAuthMode();
+
+  switch (authMode) {
+    case "naa":
+      // NAA entry-point – the host Office app acts as the broker
+      return createNestablePublicClientApplication(msalConfig);
+    case "dialog":
+      return createDialogFallbackClient(msalConfig);
+    case "popup":
+      return createStandardPublicClientApplication({
+        ...msalConfig,
+        auth: { ...msalConfig.auth, supportsNestedAppAuth: false },
+      });
+    case "emulator":
+      // Dev server only – stub tokens from the local CAE emulator
+      return createEmulatorClient();
+  }
+}
+
+/**
+ * Which authentication path the singleton uses (`null` before the
+ * first `getMsalInstance()` or when a client was injected).
+ */
+export function getAuthMode(): AuthMode | null {
+  return authMode;
+}
+
+/**
+ * Replace the singleton client – e.g. with a fake
+ * `IPublicClientApplication` in tests.  Passing `null` resets it so
+ * the next `getMsalInstance()` creates a fresh NAA client.
+ */
+export function setMsalInstance(pca: IPublicClientApplication | null): void {
+  msalInstance = pca;
+  msalInstancePromise = null;
+  authMode = null;
+  hostIdentity = undefined;
+  inFlightTokenRequests.clear();
+  elevatedTokens.clear();
+  interactionQueue = Promise.resolve();
+  cancelTokenRefresh();
+  clearTokenStatuses();
 }
 
 /* ================================================================== */
 /*  Account helpers                                                   */
 /* ================================================================== */
 
+/** Identity of the Office host user (`undefined` until first read). */
+let hostIdentity: HostIdentity | null | undefined;
+
 /**
- * Return the currently-active account, falling back to the first
- * cached account.
+ * Re-read the Office host identity, e.g. after the user switches to a
+ * different mailbox.  Returns the new identity.
+ */
+export async function refreshHostIdentity(): Promise<HostIdentity | null> {
+  hostIdentity = await readHostIdentity();
+  return hostIdentity;
+}
+
+/** The last identity reported by the Office host, if any. */
+export function getHostIdentity(): HostIdentity | null {
+  return hostIdentity ?? null;
+}
+
+/**
+ * Return the currently-active account.  Without one, pick the cached
+ * account that matches the Office host user (by object ID, tenant and
+ * login hint), or the only cached account.  With several unmatched
+ * accounts nothing is picked – the user must choose.
  */
 export function getActiveAccount(): AccountInfo | null {
   if (!msalInstance) return null;
@@ -67,12 +207,59 @@ export function getActiveAccount(): AccountInfo | null {
   if (active) return active;
 
   const accounts = msalInstance.getAllAccounts();
-  if (accounts.length > 0) {
-    msalInstance.setActiveAccount(accounts[0]);
-    return accounts[0];
+  const match = hostIdentity && findMatchingAccount(accounts, hostIdentity);
+  const chosen = match || (accounts.length === 1 ? accounts[0] : null);
+
+  if (chosen) {
+    msalInstance.setActiveAccount(chosen);
   }
 
-  return null;
+  return chosen;
+}
+
+/** Every account in the MSAL cache. */
+export function getAccounts(): AccountInfo[] {
+  return msalInstance?.getAllAccounts() ?? [];
+}
+
+/**
+ * Make the cached account with `homeAccountId` the active one.
+ * Throws if it is not in the cache.
+ */
+export function switchAccount(homeAccountId: string): AccountInfo {
+  const account = getAccounts().find(
+    (a) => a.homeAccountId === homeAccountId
+  );
+  if (!account || !msalInstance) {
+    throw new AuthServiceError(`Account ${homeAccountId} is not signed in.`);
+  }
+
+  activateAccount(msalInstance, account);
+  return account;
+}
+
+/**
+ * Make `account` the active one.  Cached responses belong to the
+ * account being switched away from and are purged.
+ */
+function activateAccount(
+  pca: IPublicClientApplication,
+  account: AccountInfo
+): void {
+  const previous = getActiveAccount();
+  if (previous && previous.homeAccountId !== account.homeAccountId) {
+    void purgeResponseCache(previous.homeAccountId);
+  }
+  pca.setActiveAccount(account);
+}
+
+/**
+ * True when `account` is known not to be the user of the mailbox the
+ * Office host is showing (tokens would be for the wrong mailbox).
+ */
+export function isAccountMismatch(account: AccountInfo | null): boolean {
+  if (!account || !hostIdentity) return false;
+  return !accountMatchesIdentity(account, hostIdentity);
 }
 
 /* ================================================================== */
@@ -84,34 +271,206 @@ export function getActiveAccount(): AccountInfo | null {
  * inline — no popups or redirects.
  */
 export async function login(): Promise<AuthenticationResult> {
+  if (!interactiveAuthEnabled) {
+    throw new InteractionRequiredError(
+      "Sign-in is not available here. Open the task pane to sign in."
+    );
+  }
+
   const pca = await getMsalInstance();
-  const result = await pca.acquireTokenPopup(loginRequest);
+
+  // Steer sign-in towards the account the Office host is using
+  const request: PopupRequest = hostIdentity
+    ? { ...loginRequest, loginHint: hostIdentity.loginHint }
+    : loginRequest;
+
+  const result = await runInteractive(() =>
+    pca.acquireTokenPopup(request)
+  ).catch((error: unknown) => {
+    throw toAuthServiceError(error);
+  });
 
   if (result.account) {
-    pca.setActiveAccount(result.account);
+    activateAccount(pca, result.account);
   }
 
+  recordGrantedScopes(result);
+  recordDiagnostic("token", "Signed in", {
+    scopes: result.scopes.join(" "),
+    correlationId: result.correlationId,
+  });
   return result;
 }
 
 /**
- * Clear the local session (there is no "server-side logout" with NAA
- * since the host manages the session).
+ * Clear the local session of `account` – by default the active one
+ * (there is no "server-side logout" with NAA since the host manages
+ * the session).
  */
-export async function logout(): Promise<void> {
+export async function logout(account?: AccountInfo | null): Promise<void> {
   const pca = await getMsalInstance();
-  const account = getActiveAccount();
+  const target = account ?? getActiveAccount();
 
-  if (account) {
-    // Clear the token cache for the account
-    await pca.clearCache({ account });
+  if (target) {
+    await forgetAccount(pca, target);
+    recordDiagnostic("token", "Signed out");
+  }
+}
+
+/** Clear the local sessions of every signed-in account. */
+export async function logoutAll(): Promise<void> {
+  const pca = await getMsalInstance();
+
+  for (const account of getAccounts()) {
+    await forgetAccount(pca, account);
+  }
+  recordDiagnostic("token", "Signed out of all accounts");
+}
+
+/** Drop everything held for `account`: tokens, grants, cached data. */
+async function forgetAccount(
+  pca: IPublicClientApplication,
+  account: AccountInfo
+): Promise<void> {
+  // Clear the token cache for the account
+  await pca.clearCache({ account });
+  clearGrantedScopes(account);
+  cancelTokenRefresh(account.homeAccountId);
+  clearTokenStatuses(account.homeAccountId);
+  forgetElevatedTokens(account.homeAccountId);
+  await purgeResponseCache(account.homeAccountId);
+}
+
+/* ================================================================== */
+/*  Session revocation                                                */
+/* ================================================================== */
+
+export interface SessionEndedEvent {
+  /** The account whose session ended (no longer signed in). */
+  account: AccountInfo;
+  reason: SessionRevocationReason;
+  error: SessionRevokedError;
+}
+
+type SessionEndedListener = (event: SessionEndedEvent) => void;
+
+const sessionListeners = new Set<SessionEndedListener>();
+/** Accounts being signed out after a revocation (one reset each). */
+const endingSessions = new Set<string>();
+
+/**
+ * Subscribe to sessions ended by Entra ID (CAE revocation, disabled
+ * account, password change, blocking policy).  By the time listeners
+ * run the account is signed out locally.  Returns an unsubscribe
+ * function.
+ */
+export function onSessionEnded(listener: SessionEndedListener): () => void {
+  sessionListeners.add(listener);
+  return () => sessionListeners.delete(listener);
+}
+
+/**
+ * Reset after a revocation: sign `account` out locally, drop every
+ * stored claims challenge (they belong to the dead session) and tell
+ * the listeners.
+ */
+async function endSession(
+  account: AccountInfo,
+  error: SessionRevokedError
+): Promise<void> {
+  if (endingSessions.has(account.homeAccountId)) return;
+  endingSessions.add(account.homeAccountId);
+
+  try {
+    await forgetAccount(await getMsalInstance(), account);
+    for (const resource of Object.keys(getAllStoredClaimsChallenges())) {
+      clearClaimsChallenge(resource);
+    }
+
+    recordDiagnostic("token", "Session ended", {
+      reason: error.reason,
+      error: error.message,
+    });
+    for (const listener of sessionListeners) {
+      listener({ account, reason: error.reason, error });
+    }
+  } finally {
+    endingSessions.delete(account.homeAccountId);
   }
 }
 
+/* ================================================================== */
+/*  Single-flight coordination                                        */
+/* ================================================================== */
+
+/** In-flight acquisitions keyed by account + scopes + claims. */
+const inFlightTokenRequests = new Map<string, Promise<TokenResult>>();
+
+/** Tail of the interactive queue – one prompt at a time. */
+let interactionQueue: Promise<unknown> = Promise.resolve();
+
+/** False in runtimes that cannot show UI (ribbon / event commands). */
+let interactiveAuthEnabled = true;
+
+/**
+ * Allow or forbid interactive prompts.  Headless runtimes (function
+ * commands, event handlers) turn them off: anything that needs the
+ * user then fails with `InteractionRequiredError` (or a consent
+ * error) instead of trying to open a prompt, and a claims challenge
+ * stays stored for the task pane to resolve.
+ */
+export function configureInteractiveAuth(options: { enabled: boolean }): void {
+  interactiveAuthEnabled = options.enabled;
+}
+
+/**
+ * Run `prompt` once every previously queued interactive request has
+ * settled, so the NAA bridge never shows two prompts at once.
+ */
+function runInteractive<T>(prompt: () => Promise<T>): Promise<T> {
+  const run = interactionQueue.then(prompt, prompt);
+  interactionQueue = run.catch(() => undefined);
+  return run;
+}
+
+function tokenRequestKey(
+  account: AccountInfo | null,
+  scopes: string[],
+  claims: string | undefined,
+  silentOnly: boolean
+): string {
+  const normalisedScopes = scopes.map((s) => s.toLowerCase()).sort();
+  return [
+    account?.homeAccountId ?? "",
+    normalisedScopes.join(" "),
+    claims ?? "",
+    silentOnly ? "silent" : "",
+  ].join("|");
+}
+
 /* ================================================================== */
 /*  Token Acquisition — with Claims-Challenge support                 */
 /* ================================================================== */
 
+/** `AuthenticationResult` plus the decoded access-token claims. */
+export interface TokenResult extends AuthenticationResult {
+  /** `null` when the token is opaque (see `tokenStatus.ts`). */
+  tokenClaims: AccessTokenClaims | null;
+}
+
+export interface AcquireTokenOptions {
+  /**
+   * `false` never prompts – a request that needs the user fails with
+   * `InteractionRequiredError` (or a consent error) instead.
+   */
+  interactive?: boolean;
+  /**
+   * Conditional Access authentication context to step up to (e.g.
+   * "c1", see `authContext.ts`).
+   */
+  authContext?: string;
+}
+
 /**
  * Acquire an access token for `scopes`, silently if possible.
  *
@@ -119,20 +478,110 @@ export async function logout(): Promise<void> {
  * automatically attached to the request so Azure AD can satisfy the
  * Conditional-Access requirement.
  *
+ * Concurrent calls for the same account, scopes and claims share a
+ * single silent/interactive acquisition, and interactive prompts are
+ * serialised.  Failures are thrown as `AuthServiceError` subclasses
+ * (see `errors.ts`).
+ *
+ * The token's claims are decoded into `tokenClaims`, its status is
+ * published (see `onTokenStatusChange`) and a silent refresh is
+ * scheduled shortly before it expires.
+ *
+ * With `options.authContext` the token must satisfy that
+ * authentication context: the baseline token is used if its `acrs`
+ * claim already includes it, otherwise the context is requested
+ * (step-up, usually an MFA prompt through the NAA bridge).  Elevated
+ * tokens are cached apart from the baseline ones and do not replace
+ * the published token status.
+ *
  * @param scopes   The OAuth scopes to request.
  * @param resource A key identifying the target API (e.g. "graph").
  *                 Used to look up previously stored claims challenges.
+ * @param options  See {@link AcquireTokenOptions}.
  */
 export async function acquireToken(
   scopes: string[],
-  resource = "graph"
+  resource = "graph",
+  options: AcquireTokenOptions = {}
+): Promise<TokenResult> {
+  if (options.authContext !== undefined) {
+    assertAuthContextId(options.authContext);
+  }
+  await getMsalInstance();
+  const interactive = interactiveAuthEnabled && options.interactive !== false;
+
+  return options.authContext
+    ? acquireElevatedToken(scopes, resource, options.authContext, interactive)
+    : requestToken(scopes, resource, interactive);
+}
+
+/** Single-flight token request, optionally for an auth context. */
+function requestToken(
+  scopes: string[],
+  resource: string,
+  interactive: boolean,
+  authContext?: string
+): Promise<TokenResult> {
+  const account = getActiveAccount();
+  const storedClaims = getStoredClaimsChallenge(resource);
+  const claims = authContext
+    ? buildAuthContextClaims(authContext, storedClaims)
+    : storedClaims;
+  const key = tokenRequestKey(account, scopes, claims, !interactive);
+
+  let pending = inFlightTokenRequests.get(key);
+  if (!pending) {
+    pending = acquireTokenOnce(
+      scopes,
+      resource,
+      account,
+      storedClaims,
+      interactive,
+      authContext
+    )
+      .then((result) => {
+        recordGrantedScopes(result);
+        return authContext
+          ? { ...result, tokenClaims: decodeAccessToken(result.accessToken) }
+          : trackToken(result, scopes, resource);
+      })
+      .catch(async (error: unknown) => {
+        const authError = toAuthServiceError(error);
+        recordDiagnostic("error", "Token acquisition failed", {
+          resource,
+          scopes: scopes.join(" "),
+          code: authError.code,
+          error: authError.message,
+        });
+        if (authError instanceof SessionRevokedError && account) {
+          await endSession(account, authError);
+        }
+        throw authError;
+      })
+      .finally(() => inFlightTokenRequests.delete(key));
+    inFlightTokenRequests.set(key, pending);
+  }
+
+  return pending;
+}
+
+async function acquireTokenOnce(
+  scopes: string[],
+  resource: string,
+  account: AccountInfo | null,
+  storedClaims: string | undefined,
+  interactive: boolean,
+  authContext?: string
 ): Promise<AuthenticationResult> {
   const pca = await getMsalInstance();
-  const account = getActiveAccount();
 
-  // Build request, injecting claims challenge if one was stored
-  const storedClaims = getStoredClaimsChallenge(resource);
-  const request: PopupRequest = buildGraphRequest(scopes, storedClaims);
+  // Build request, injecting claims challenge if one was stored and
+  // the authentication context to step up to
+  const request: PopupRequest & SilentRequest = buildGraphRequest(
+    scopes,
+    storedClaims,
+    authContext
+  );
 
   if (account) {
     request.account = account;
@@ -141,10 +590,23 @@ export async function acquireToken(
   // When a claims challenge is present, MSAL must skip the cache and
   // go to the network so the new token (satisfying the challenge) is
   // fetched AND cached, replacing the old one.
-  if (storedClaims) {
+  if (request.claims) {
     request.forceRefresh = true;
   }
 
+  const startedAt = Date.now();
+  const record = (mode: string, result: AuthenticationResult) =>
+    recordDiagnostic("token", `Token acquired (${mode})`, {
+      resource,
+      scopes: scopes.join(" "),
+      fromCache: result.fromCache,
+      forceRefresh: request.forceRefresh === true,
+      claims: request.claims !== undefined,
+      authContext,
+      durationMs: Date.now() - startedAt,
+      correlationId: result.correlationId,
+    });
+
   try {
     // ① Try silent acquisition first
     const result = await pca.acquireTokenSilent(request);
@@ -160,25 +622,44 @@ export async function acquireToken(
       clearClaimsChallenge(resource);
     }
 
+    record("silent", result);
     return result;
   } catch (error: unknown) {
     // ② If interaction is required (or claims challenge forces it),
     //    fall back to interactive (popup via NAA bridge).
     if (error instanceof InteractionRequiredAuthError) {
-      // The error itself may carry a claims string
+      recordDiagnostic("token", "Silent acquisition needs interaction", {
+        resource,
+        errorCode: error.errorCode,
+        claims: error.claims ? true : undefined,
+      });
+
+      // The error itself may carry a claims string.  Only the raw
+      // challenge is stored; a step-up keeps its acrs request.
       if (error.claims) {
-        request.claims = error.claims;
+        request.claims = authContext
+          ? buildAuthContextClaims(authContext, error.claims)
+          : error.claims;
         storeClaimsChallenge(resource, error.claims);
       }
 
-      const result = await pca.acquireTokenPopup(request);
+      // Silent-only request or headless runtime – leave the prompt
+      // (and the stored claims) to the caller / the task pane
+      if (!interactive) {
+        throw error;
+      }
+
+      const result = await runInteractive(() =>
+        pca.acquireTokenPopup(request)
+      );
 
       if (result.account) {
-        pca.setActiveAccount(result.account);
+        activateAccount(pca, result.account);
       }
 
       // Clear claims after interactive success
       clearClaimsChallenge(resource);
+      record("interactive", result);
       return result;
     }
 
@@ -187,55 +668,416 @@ export async function acquireToken(
 }
 
 /* ================================================================== */
-/*  Graph API call with automatic claims-challenge retry              */
+/*  Step-up (authentication contexts)                                 */
+/* ================================================================== */
+
+/**
+ * Tokens that satisfy an authentication context, keyed by account +
+ * resource + context + scopes.  Kept apart from the baseline tokens
+ * so a routine refresh never downgrades them.
+ */
+const elevatedTokens = new Map<string, TokenResult>();
+
+function elevatedTokenKey(
+  account: AccountInfo | null,
+  resource: string,
+  authContext: string,
+  scopes: string[]
+): string {
+  const normalisedScopes = scopes.map((s) => s.toLowerCase()).sort();
+  return [
+    account?.homeAccountId ?? "",
+    resource,
+    authContext,
+    normalisedScopes.join(" "),
+  ].join("|");
+}
+
+/** Whether `token` is still good for at least another minute. */
+function isUsable(token: TokenResult): boolean {
+  return (
+    token.expiresOn !== null &&
+    token.expiresOn.getTime() - Date.now() > MIN_REFRESH_DELAY_MS
+  );
+}
+
+function forgetElevatedTokens(accountId: string): void {
+  for (const key of elevatedTokens.keys()) {
+    if (key.startsWith(`${accountId}|`)) elevatedTokens.delete(key);
+  }
+}
+
+async function acquireElevatedToken(
+  scopes: string[],
+  resource: string,
+  authContext: string,
+  interactive: boolean
+): Promise<TokenResult> {
+  const key = elevatedTokenKey(
+    getActiveAccount(),
+    resource,
+    authContext,
+    scopes
+  );
+
+  // A stored claims challenge means the cached token was rejected
+  const cached = elevatedTokens.get(key);
+  if (cached && isUsable(cached) && !getStoredClaimsChallenge(resource)) {
+    return cached;
+  }
+
+  // The baseline token may already satisfy the context (e.g. the user
+  // did MFA at sign-in)
+  let result = await requestToken(scopes, resource, interactive);
+  if (!tokenSatisfiesAuthContext(result.tokenClaims, authContext)) {
+    recordDiagnostic("token", "Stepping up", { resource, authContext });
+    result = await requestToken(scopes, resource, interactive, authContext);
+  }
+
+  elevatedTokens.set(key, result);
+  return result;
+}
+
+/**
+ * Whether the active account holds a token for `resource` that
+ * satisfies `authContext` – the baseline token's `acrs` claim, or an
+ * unexpired elevated token.  Never requests a token.
+ */
+export function hasAuthContext(
+  authContext: string,
+  resource = "graph"
+): boolean {
+  const account = getActiveAccount();
+  if (!account) return false;
+
+  const status = getTokenStatus(account.homeAccountId, resource);
+  if (tokenSatisfiesAuthContext(status?.claims, authContext)) return true;
+
+  const prefix = `${account.homeAccountId}|${resource}|${authContext}|`;
+  return [...elevatedTokens].some(
+    ([key, token]) => key.startsWith(prefix) && isUsable(token)
+  );
+}
+
+/* ================================================================== */
+/*  Token status & proactive refresh                                  */
+/* ================================================================== */
+
+/** Default lead time of the background refresh before expiry. */
+export const DEFAULT_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+
+/** Never schedule refreshes closer together than this. */
+const MIN_REFRESH_DELAY_MS = 60 * 1000;
+
+export interface TokenRefreshOptions {
+  /** Turn background refresh on or off (default on). */
+  enabled?: boolean;
+  /** Refresh this long before expiry (default 5 min). */
+  marginMs?: number;
+}
+
+let refreshEnabled = true;
+let refreshMarginMs = DEFAULT_REFRESH_MARGIN_MS;
+
+/** Pending refresh timers keyed by account + resource. */
+const refreshTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+/** Change when (or whether) tokens are refreshed in the background. */
+export function configureTokenRefresh(options: TokenRefreshOptions): void {
+  if (options.enabled !== undefined) refreshEnabled = options.enabled;
+  if (options.marginMs !== undefined) refreshMarginMs = options.marginMs;
+  if (!refreshEnabled) cancelTokenRefresh();
+}
+
+/** Cancel pending background refreshes for one account, or for all. */
+function cancelTokenRefresh(accountId?: string): void {
+  for (const [key, timer] of refreshTimers) {
+    if (accountId === undefined || key.startsWith(`${accountId}|`)) {
+      clearTimeout(timer);
+      refreshTimers.delete(key);
+    }
+  }
+}
+
+/** Decode `result`, publish its status and schedule its refresh. */
+function trackToken(
+  result: AuthenticationResult,
+  scopes: string[],
+  resource: string
+): TokenResult {
+  const tokenClaims = decodeAccessToken(result.accessToken);
+  const { account } = result;
+  if (!account) return { ...result, tokenClaims };
+
+  const expiresOn =
+    result.expiresOn ??
+    (tokenClaims?.exp ? new Date(tokenClaims.exp * 1000) : null);
+
+  setTokenStatus({
+    accountId: account.homeAccountId,
+    resource,
+    scopes: result.scopes,
+    expiresOn,
+    refreshAt: scheduleTokenRefresh(account, scopes, resource, expiresOn),
+    caeCapable: isCaeToken(tokenClaims),
+    claims: tokenClaims,
+  });
+
+  return { ...result, tokenClaims };
+}
+
+function scheduleTokenRefresh(
+  account: AccountInfo,
+  scopes: string[],
+  resource: string,
+  expiresOn: Date | null
+): Date | null {
+  const key = `${account.homeAccountId}|${resource}`;
+  clearTimeout(refreshTimers.get(key));
+  refreshTimers.delete(key);
+
+  if (!refreshEnabled || !expiresOn) return null;
+
+  const delay = Math.max(
+    expiresOn.getTime() - refreshMarginMs - Date.now(),
+    MIN_REFRESH_DELAY_MS
+  );
+  refreshTimers.set(
+    key,
+    setTimeout(() => {
+      refreshTimers.delete(key);
+      void refreshInBackground(account, scopes, resource);
+    }, delay)
+  );
+
+  return new Date(Date.now() + delay);
+}
+
+/**
+ * Silently renew a token before it expires.  Never prompts: when the
+ * refresh needs interaction, the failure is recorded on the token
+ * status and the next foreground call deals with it.
+ */
+async function refreshInBackground(
+  account: AccountInfo,
+  scopes: string[],
+  resource: string
+): Promise<void> {
+  const stillSignedIn = getAccounts().some(
+    (a) => a.homeAccountId === account.homeAccountId
+  );
+  if (!stillSignedIn) return;
+
+  const storedClaims = getStoredClaimsChallenge(resource);
+  const startedAt = Date.now();
+
+  try {
+    const pca = await getMsalInstance();
+    const result = await pca.acquireTokenSilent({
+      ...buildGraphRequest(scopes, storedClaims),
+      account,
+      forceRefresh: true,
+    });
+
+    if (storedClaims) {
+      clearClaimsChallenge(resource);
+    }
+    recordGrantedScopes(result);
+    trackToken(result, scopes, resource);
+    recordDiagnostic("token", "Token refreshed in background", {
+      resource,
+      scopes: scopes.join(" "),
+      claims: storedClaims !== undefined,
+      durationMs: Date.now() - startedAt,
+      correlationId: result.correlationId,
+    });
+  } catch (error: unknown) {
+    const authError = toAuthServiceError(error);
+    recordDiagnostic("error", "Background token refresh failed", {
+      resource,
+      code: authError.code,
+      error: authError.message,
+    });
+    if (authError instanceof SessionRevokedError) {
+      await endSession(account, authError);
+      return;
+    }
+
+    const status = getTokenStatus(account.homeAccountId, resource);
+    if (status) {
+      setTokenStatus({
+        ...status,
+        refreshAt: null,
+        refreshError: authError.message,
+      });
+    }
+  }
+}
+
+/* ================================================================== */
+/*  API calls with automatic claims-challenge retry                   */
 /* ================================================================== */
 
 /**
- * Call the Microsoft Graph API.  If Graph returns a 401 with a claims
- * challenge (CAE), the function:
+ * Call a registered protected API.  If the API returns a 401 with a
+ * claims challenge (CAE), the function:
  *
- *  1. Parses and stores the challenge.
+ *  1. Parses and stores the challenge under the resource's claims key.
  *  2. Re-acquires a token with the challenge attached.
- *  3. Retries the Graph call **once**.
+ *  3. Retries the call **once**, re-sending the same body.
  *
- * @param endpoint  Graph endpoint (e.g. "/me", "/me/messages").
- * @param scopes    Scopes for the access token.
- * @returns         The parsed JSON response from Graph.
+ * Throttled (429) and transient (5xx / network) failures are retried
+ * per the retry policy around each attempt; `options.signal` cancels
+ * the call.  With the response cache on, GETs that opt in with
+ * `cache: true` are revalidated with `If-None-Match` and a 304 is
+ * answered from the cache (see `responseCache.ts`).  Any other 401
+ * challenge is thrown as an `AuthChallengeError`, a claims challenge
+ * that survives the retry as a `ClaimsChallengeUnresolvedError`, and
+ * other failures as `ApiError` (or `ThrottledError`).
+ *
+ * @param resourceId  ID of a resource in the registry (e.g. "graph").
+ * @param path        Path relative to the resource's base URL, or an
+ *                    absolute URL.
+ * @param options     Method, body, headers, response type, scopes and
+ *                    the authentication context to step up to.
+ *                    The Authorization header is added automatically.
+ * @returns           The response body read as `options.responseType`
+ *                    (JSON by default; `undefined` for empty responses).
  */
-export async function callGraphWithClaimsRetry<T = unknown>(
-  endpoint: string,
-  scopes: string[]
+export async function callApiWithClaimsRetry<T = unknown>(
+  resourceId: string,
+  path: string,
+  options: ApiRequestOptions = {}
 ): Promise<T> {
-  const RESOURCE = "graph";
-  const GRAPH_BASE = "https://graph.microsoft.com/v1.0";
+  const resource = getProtectedResource(resourceId);
+  const url = resolveResourceUrl(resource, path);
+  const tokenScopes = options.scopes ?? resource.scopes;
+  const retryPolicy = resolveRetryPolicy(options.retry);
 
-  // First attempt
-  let tokenResult = await acquireToken(scopes, RESOURCE);
+  // Persistent GET cache – never served while a challenge is pending
+  const account = getActiveAccount();
+  const cacheKey =
+    account && isCacheableRequest(options)
+      ? responseCacheKey(
+          account.homeAccountId,
+          resourceId,
+          url,
+          options.headers,
+          options.authContext
+        )
+      : null;
+  const cached =
+    cacheKey && !getStoredClaimsChallenge(resource.claimsKey)
+      ? await readCachedResponse(cacheKey)
+      : undefined;
+  const requestOptions: ApiRequestOptions = cached
+    ? {
+        ...options,
+        headers: { ...options.headers, "If-None-Match": cached.etag },
+      }
+    : options;
 
-  let response = await fetch(`${GRAPH_BASE}${endpoint}`, {
-    headers: { Authorization: `Bearer ${tokenResult.accessToken}` },
-  });
+  // Throttling / transient retries wrap every individual fetch
+  const send = async (accessToken: string): Promise<Response> => {
+    const startedAt = Date.now();
+    const details = {
+      resource: resourceId,
+      method: options.method ?? "GET",
+      path: url.split("?")[0],
+    };
+
+    try {
+      const response = await fetchWithRetry(
+        url,
+        () => buildRequestInit(requestOptions, accessToken),
+        retryPolicy,
+        options.signal
+      );
+      recordDiagnostic("api", `${details.method} ${response.status}`, {
+        ...details,
+        status: response.status,
+        requestId: response.headers.get("request-id"),
+        clientRequestId: response.headers.get("client-request-id"),
+        durationMs: Date.now() - startedAt,
+      });
+      return response;
+    } catch (error: unknown) {
+      recordDiagnostic("error", `${details.method} failed`, {
+        ...details,
+        error: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    }
+  };
+
+  const tokenOptions = { authContext: options.authContext };
+
+  // First attempt
+  let tokenResult = await acquireToken(
+    tokenScopes,
+    resource.claimsKey,
+    tokenOptions
+  );
+  let response = await send(tokenResult.accessToken);
 
   // If 401 with claims challenge → handle and retry once
   if (response.status === 401) {
-    const claims = handleClaimsChallengeFromResponse(response, RESOURCE);
+    const claims = handleClaimsChallengeFromResponse(
+      response,
+      resource.claimsKey
+    );
 
     if (claims) {
       // Re-acquire token including the claims challenge
-      tokenResult = await acquireToken(scopes, RESOURCE);
-
-      response = await fetch(`${GRAPH_BASE}${endpoint}`, {
-        headers: { Authorization: `Bearer ${tokenResult.accessToken}` },
-      });
+      tokenResult = await acquireToken(
+        tokenScopes,
+        resource.claimsKey,
+        tokenOptions
+      );
+      response = await send(tokenResult.accessToken);
     }
   }
 
+  if (cached && response.status === 304) {
+    await touchCachedResponse(cached);
+    return readResponseBody<T>(toCachedResponse(cached), options.responseType);
+  }
+
+  // A 401 that still carries a challenge is not retryable here –
+  // report it distinctly from generic API errors.
+  const challenges = getAuthChallengesFromResponse(response);
+  if (challenges.length > 0) {
+    throw findClaimsChallenge(challenges)
+      ? new ClaimsChallengeUnresolvedError(challenges)
+      : new AuthChallengeError(
+          classifyAuthChallenge(challenges[0]),
+          challenges
+        );
+  }
+
   if (!response.ok) {
-    const errorBody = await response.text();
-    throw new Error(
-      `Graph API error ${response.status}: ${response.statusText}\n${errorBody}`
-    );
+    throw await ApiError.fromResponse(resourceId, response);
+  }
+
+  if (cacheKey) {
+    await writeCachedResponse(cacheKey, response);
   }
+  return readResponseBody<T>(response, options.responseType);
+}
 
-  return (await response.json()) as T;
+/**
+ * Call the Microsoft Graph API with claims-challenge retry.
+ * Shorthand for `callApiWithClaimsRetry("graph", endpoint, …)`.
+ *
+ * @param endpoint  Graph endpoint (e.g. "/me", "/me/messages").
+ * @param scopes    Scopes for the access token.
+ * @param options   Method, body, headers and response type.
+ * @returns         The response body (parsed JSON by default).
+ */
+export async function callGraphWithClaimsRetry<T = unknown>(
+  endpoint: string,
+  scopes: string[],
+  options: Omit<ApiRequestOptions, "scopes"> = {}
+): Promise<T> {
+  return callApiWithClaimsRetry<T>("graph", endpoint, { ...options, scopes });
 }
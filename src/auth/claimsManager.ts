@@ -10,33 +10,217 @@
  * the decoded JSON string via the `claims` property on the next token
  * request so Azure AD can satisfy the challenge.
  *
+ * Challenges are stored per resource with an expiry, merged when a
+ * second one arrives for the same resource, and broadcast to every
+ * runtime of the add-in.  Header parsing lives in
+ * `wwwAuthenticate.ts`; storage back-ends in `claimsStore.ts`.
+ *
  * References:
  *  - https://learn.microsoft.com/entra/identity-platform/claims-challenge
  *  - https://learn.microsoft.com/entra/msal/dotnet/advanced/exceptions/claims-challenge
  */
 
+import {
+  parseWwwAuthenticate,
+  findClaimsChallenge,
+  type AuthChallenge,
+} from "./wwwAuthenticate";
+import {
+  createWebStorage,
+  createMemoryStorage,
+  parseClaimsEntry,
+  mergeClaims,
+  type ClaimsStorage,
+  type StoredClaimsEntry,
+} from "./claimsStore";
+import { recordDiagnostic } from "./diagnostics";
+
 /* ------------------------------------------------------------------ */
-/*  Session-scoped claims store (per-resource)                        */
+/*  Claims store (per-resource, with expiry)                          */
 /* ------------------------------------------------------------------ */
 
 const STORAGE_KEY_PREFIX = "naa_cae_claims_";
 
+/** Default lifetime of a stored challenge. */
+export const DEFAULT_CLAIMS_TTL_MS = 5 * 60 * 1000;
+
+/** Channel shared by every runtime of the add-in (task pane, commands…). */
+export const DEFAULT_CLAIMS_CHANNEL = "naa_cae_claims";
+
+export interface ClaimsStoreOptions {
+  /** Back-end (default: `sessionStorage`, or memory when unavailable). */
+  storage?: ClaimsStorage;
+  /** Lifetime of new entries (default {@link DEFAULT_CLAIMS_TTL_MS}). */
+  ttlMs?: number;
+  /** `BroadcastChannel` name, or `null` to disable cross-runtime sync. */
+  channelName?: string | null;
+}
+
+/** Notification emitted whenever a stored challenge changes. */
+export interface ClaimsChallengeChange {
+  type: "stored" | "cleared";
+  resource: string;
+  /** Merged claims now stored (for `"stored"`). */
+  claims?: string;
+  /** `"remote"` when the change came from another add-in runtime. */
+  source: "local" | "remote";
+}
+
+type ClaimsChannelMessage =
+  | { type: "stored"; resource: string; entry: StoredClaimsEntry }
+  | { type: "cleared"; resource: string };
+
+let storage: ClaimsStorage | null = null;
+let ttlMs = DEFAULT_CLAIMS_TTL_MS;
+let channelName: string | null = DEFAULT_CLAIMS_CHANNEL;
+let channel: BroadcastChannel | null | undefined;
+const listeners = new Set<(change: ClaimsChallengeChange) => void>();
+
+/**
+ * Replace the store back-end, TTL or sync channel.  Call before the
+ * first token request (tests typically pass `createMemoryStorage()`).
+ */
+export function configureClaimsStore(options: ClaimsStoreOptions): void {
+  if (options.storage) storage = options.storage;
+  if (options.ttlMs !== undefined) ttlMs = options.ttlMs;
+  if (options.channelName !== undefined) {
+    channel?.close();
+    channel = undefined;
+    channelName = options.channelName;
+  }
+}
+
+function getStorage(): ClaimsStorage {
+  storage ??=
+    typeof sessionStorage !== "undefined"
+      ? createWebStorage(sessionStorage)
+      : createMemoryStorage();
+  return storage;
+}
+
+function getChannel(): BroadcastChannel | null {
+  if (channel !== undefined) return channel;
+
+  if (!channelName || typeof BroadcastChannel === "undefined") {
+    channel = null;
+    return channel;
+  }
+
+  channel = new BroadcastChannel(channelName);
+  channel.onmessage = (event: MessageEvent<ClaimsChannelMessage>) => {
+    applyRemoteChange(event.data);
+  };
+  return channel;
+}
+
+function applyRemoteChange(message: ClaimsChannelMessage): void {
+  const key = `${STORAGE_KEY_PREFIX}${message.resource}`;
+
+  if (message.type === "stored") {
+    getStorage().setItem(key, JSON.stringify(message.entry));
+    notify({
+      type: "stored",
+      resource: message.resource,
+      claims: message.entry.claims,
+      source: "remote",
+    });
+  } else {
+    getStorage().removeItem(key);
+    notify({ type: "cleared", resource: message.resource, source: "remote" });
+  }
+}
+
+function broadcast(message: ClaimsChannelMessage): void {
+  getChannel()?.postMessage(message);
+}
+
+function notify(change: ClaimsChallengeChange): void {
+  recordDiagnostic("claims", `Claims challenge ${change.type}`, {
+    resource: change.resource,
+    source: change.source,
+    claims: change.claims,
+  });
+
+  for (const listener of listeners) {
+    listener(change);
+  }
+}
+
+function readEntry(resource: string): StoredClaimsEntry | undefined {
+  const key = `${STORAGE_KEY_PREFIX}${resource}`;
+  const entry = parseClaimsEntry(getStorage().getItem(key));
+
+  if (!entry || entry.expiresAt <= Date.now()) {
+    // Expired or unreadable – drop it so it can't force refreshes forever
+    getStorage().removeItem(key);
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Subscribe to challenge changes from this runtime and (via
+ * `BroadcastChannel`) every other runtime of the add-in.
+ *
+ * @returns An unsubscribe function.
+ */
+export function onClaimsChallengeChange(
+  listener: (change: ClaimsChallengeChange) => void
+): () => void {
+  getChannel(); // start listening for remote changes
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
 /**
  * Persist the decoded claims JSON string for a given resource so it
- * survives task-pane reloads inside the same session.
+ * survives task-pane reloads inside the same session.  A challenge
+ * already stored for the resource is merged with the new one, and the
+ * entry expires after `ttl` ms.
  */
-export function storeClaimsChallenge(resource: string, claims: string): void {
-  sessionStorage.setItem(`${STORAGE_KEY_PREFIX}${resource}`, claims);
+export function storeClaimsChallenge(
+  resource: string,
+  claims: string,
+  ttl = ttlMs
+): void {
+  const existing = readEntry(resource);
+  const now = Date.now();
+  const entry: StoredClaimsEntry = {
+    claims: existing ? mergeClaims(existing.claims, claims) : claims,
+    storedAt: now,
+    expiresAt: now + ttl,
+  };
+
+  getStorage().setItem(
+    `${STORAGE_KEY_PREFIX}${resource}`,
+    JSON.stringify(entry)
+  );
+  broadcast({ type: "stored", resource, entry });
+  notify({ type: "stored", resource, claims: entry.claims, source: "local" });
 }
 
 /**
  * Retrieve a previously stored claims challenge for a resource.
- * Returns `undefined` when no challenge is stored.
+ * Returns `undefined` when no challenge is stored or it has expired.
  */
 export function getStoredClaimsChallenge(
   resource: string
 ): string | undefined {
-  return sessionStorage.getItem(`${STORAGE_KEY_PREFIX}${resource}`) ?? undefined;
+  return readEntry(resource)?.claims;
+}
+
+/** Every unexpired stored challenge, keyed by resource. */
+export function getAllStoredClaimsChallenges(): Record<string, string> {
+  const result: Record<string, string> = {};
+
+  for (const key of getStorage().keys()) {
+    if (!key.startsWith(STORAGE_KEY_PREFIX)) continue;
+
+    const resource = key.slice(STORAGE_KEY_PREFIX.length);
+    const claims = getStoredClaimsChallenge(resource);
+    if (claims) result[resource] = claims;
+  }
+  return result;
 }
 
 /**
@@ -44,7 +228,12 @@ export function getStoredClaimsChallenge(
  * successful token acquisition with the challenge).
  */
 export function clearClaimsChallenge(resource: string): void {
-  sessionStorage.removeItem(`${STORAGE_KEY_PREFIX}${resource}`);
+  const key = `${STORAGE_KEY_PREFIX}${resource}`;
+  if (getStorage().getItem(key) === null) return;
+
+  getStorage().removeItem(key);
+  broadcast({ type: "cleared", resource });
+  notify({ type: "cleared", resource, source: "local" });
 }
 
 /* ------------------------------------------------------------------ */
@@ -52,58 +241,56 @@ export function clearClaimsChallenge(resource: string): void {
 /* ------------------------------------------------------------------ */
 
 /**
- * Attempts to extract the `claims` value from the `WWW-Authenticate`
- * header of an HTTP 401 response.
+ * Extracts the claims of the first genuine CAE challenge in a
+ * `WWW-Authenticate` header.
  *
  * Example header:
  *   Bearer realm="", authorization_uri="…", client_id="…",
  *   error="insufficient_claims",
  *   claims="eyJhY2Nlc3NfdG9rZW4iOnsi…"   ← base-64 encoded JSON
  *
+ * Challenges whose `error` is something other than
+ * `insufficient_claims` (e.g. `invalid_token`) are ignored.
+ *
  * @returns The *decoded* claims JSON string, or `undefined` if no
- *          claims directive was found.
+ *          claims challenge was found.
  */
 export function parseClaimsChallengeFromHeader(
   wwwAuthenticateHeader: string
 ): string | undefined {
-  // The header may contain multiple challenges separated by commas
-  // that are *not* inside double-quotes.  We look for the `claims=`
-  // directive and grab the quoted value.
-  const claimsRegex = /claims="([^"]+)"/i;
-  const match = claimsRegex.exec(wwwAuthenticateHeader);
+  return findClaimsChallenge(parseWwwAuthenticate(wwwAuthenticateHeader))
+    ?.claims;
+}
 
-  if (!match?.[1]) {
-    return undefined;
+/**
+ * Parse every challenge in the `WWW-Authenticate` header of a 401
+ * response.  Returns an empty array for other statuses.
+ */
+export function getAuthChallengesFromResponse(
+  response: Response
+): AuthChallenge[] {
+  if (response.status !== 401) {
+    return [];
   }
 
-  try {
-    // The value is base-64-encoded JSON → decode it
-    return atob(match[1]);
-  } catch {
-    // If decoding fails, try using the raw value (some providers send
-    // the JSON directly without base-64 encoding).
-    return match[1];
-  }
+  const wwwAuth = response.headers.get("WWW-Authenticate");
+  return wwwAuth ? parseWwwAuthenticate(wwwAuth) : [];
 }
 
 /**
- * Convenience: inspect a `Response` object for claims challenges.
- * Stores the challenge if found and returns it.
+ * Convenience: inspect a `Response` object for a CAE claims
+ * challenge.  Stores the challenge if found and returns it; any other
+ * kind of challenge returns `undefined` (callers report those as an
+ * `AuthChallengeError`).
  */
 export function handleClaimsChallengeFromResponse(
   response: Response,
   resource: string
 ): string | undefined {
-  if (response.status !== 401) {
-    return undefined;
-  }
-
-  const wwwAuth = response.headers.get("WWW-Authenticate");
-  if (!wwwAuth) {
-    return undefined;
-  }
+  const claims = findClaimsChallenge(
+    getAuthChallengesFromResponse(response)
+  )?.claims;
 
-  const claims = parseClaimsChallengeFromHeader(wwwAuth);
   if (claims) {
     storeClaimsChallenge(resource, claims);
   }
@@ -0,0 +1,117 @@
+/**
+ * claimsStore.ts
+ * ──────────────
+ * Storage back-ends for CAE claims challenges.  `claimsManager.ts`
+ * talks to a {@link ClaimsStorage}, so the same logic can persist to
+ * `sessionStorage` (default), `localStorage`, or memory (tests, or
+ * runtimes without Web Storage).
+ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+/** Minimal key/value store the claims manager persists through. */
+export interface ClaimsStorage {
+  getItem(key: string): string | null;
+  setItem(key: string, value: string): void;
+  removeItem(key: string): void;
+  /** All keys currently stored. */
+  keys(): string[];
+}
+
+/** A stored challenge with its lifetime. */
+export interface StoredClaimsEntry {
+  /** Decoded claims JSON string. */
+  claims: string;
+  /** Epoch ms when the entry was (last) written. */
+  storedAt: number;
+  /** Epoch ms after which the entry is ignored and removed. */
+  expiresAt: number;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Back-ends                                                         */
+/* ------------------------------------------------------------------ */
+
+/** Wrap a Web Storage area (`sessionStorage` / `localStorage`). */
+export function createWebStorage(storage: Storage): ClaimsStorage {
+  return {
+    getItem: (key) => storage.getItem(key),
+    setItem: (key, value) => storage.setItem(key, value),
+    removeItem: (key) => storage.removeItem(key),
+    keys: () =>
+      Array.from({ length: storage.length }, (_, i) => storage.key(i)).filter(
+        (key): key is string => key !== null
+      ),
+  };
+}
+
+/** Non-persistent store backed by a `Map`. */
+export function createMemoryStorage(): ClaimsStorage {
+  const map = new Map<string, string>();
+  return {
+    getItem: (key) => map.get(key) ?? null,
+    setItem: (key, value) => void map.set(key, value),
+    removeItem: (key) => void map.delete(key),
+    keys: () => [...map.keys()],
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Entry helpers                                                     */
+/* ------------------------------------------------------------------ */
+
+/** Parse a raw stored value; returns `undefined` for foreign data. */
+export function parseClaimsEntry(
+  raw: string | null
+): StoredClaimsEntry | undefined {
+  if (!raw) return undefined;
+
+  try {
+    const entry = JSON.parse(raw) as Partial<StoredClaimsEntry>;
+    if (
+      typeof entry.claims === "string" &&
+      typeof entry.storedAt === "number" &&
+      typeof entry.expiresAt === "number"
+    ) {
+      return entry as StoredClaimsEntry;
+    }
+  } catch {
+    // fall through
+  }
+  return undefined;
+}
+
+/**
+ * Merge two claims JSON strings.  Objects are merged recursively and
+ * `incoming` wins on conflicting leaf values, so a second challenge
+ * for the same resource (e.g. an `acrs` step-up after an `nbf`
+ * revocation) keeps the requirements of both.
+ */
+export function mergeClaims(existing: string, incoming: string): string {
+  try {
+    return JSON.stringify(
+      deepMerge(JSON.parse(existing), JSON.parse(incoming))
+    );
+  } catch {
+    // Not JSON – the newest challenge is the one to satisfy
+    return incoming;
+  }
+}
+
+function deepMerge(target: unknown, source: unknown): unknown {
+  if (!isPlainObject(target) || !isPlainObject(source)) {
+    return source;
+  }
+
+  const merged: Record<string, unknown> = { ...target };
+  for (const [key, value] of Object.entries(source)) {
+    merged[key] = key in merged ? deepMerge(merged[key], value) : value;
+  }
+  return merged;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
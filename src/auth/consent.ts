@@ -0,0 +1,120 @@
+/**
+ * consent.ts
+ * ──────────
+ * Incremental consent: features declare the scopes they need (see
+ * `featureScopes` in `authConfig.ts`), and the scopes Entra ID actually
+ * granted are recorded from every `AuthenticationResult.scopes`.  Views
+ * can then check a feature's scopes up-front and ask for consent
+ * before starting an operation instead of failing mid-way.
+ */
+
+import type { AccountInfo, AuthenticationResult } from "@azure/msal-browser";
+
+import { featureScopes, type FeatureId } from "./authConfig";
+
+/* ------------------------------------------------------------------ */
+/*  Feature scopes                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Scopes declared for `feature`. */
+export function getFeatureScopes(feature: FeatureId): string[] {
+  return featureScopes[feature];
+}
+
+/* ------------------------------------------------------------------ */
+/*  Granted-scope tracking (per account)                              */
+/* ------------------------------------------------------------------ */
+
+const STORAGE_KEY_PREFIX = "naa_cae_granted_";
+
+/**
+ * OpenID Connect scopes: not Graph permissions, so never qualified
+ * with a resource and ignored by Entra ID when comparing grants.
+ */
+export const OIDC_SCOPES = ["openid", "profile", "offline_access", "email"];
+
+const grantedByAccount = new Map<string, Set<string>>();
+
+/**
+ * Normalise a scope for comparison: lower-case, with the resource host
+ * prefix removed (`https://graph.microsoft.com/Mail.Read` → `mail.read`).
+ */
+export function normaliseScope(scope: string): string {
+  return scope.replace(/^https:\/\/[^/]+\//, "").toLowerCase();
+}
+
+function storageKey(account: AccountInfo): string {
+  return `${STORAGE_KEY_PREFIX}${account.homeAccountId}`;
+}
+
+function load(account: AccountInfo): Set<string> {
+  let granted = grantedByAccount.get(account.homeAccountId);
+  if (granted) return granted;
+
+  granted = new Set<string>();
+  try {
+    const raw = localStorage.getItem(storageKey(account));
+    for (const scope of raw ? (JSON.parse(raw) as string[]) : []) {
+      granted.add(scope);
+    }
+  } catch {
+    // No Web Storage in this runtime – track in memory only
+  }
+
+  grantedByAccount.set(account.homeAccountId, granted);
+  return granted;
+}
+
+function save(account: AccountInfo, granted: Set<string>): void {
+  try {
+    localStorage.setItem(storageKey(account), JSON.stringify([...granted]));
+  } catch {
+    // ignore – see load()
+  }
+}
+
+/** Record the scopes granted in a token response. */
+export function recordGrantedScopes(result: AuthenticationResult): void {
+  if (!result.account) return;
+
+  const granted = load(result.account);
+  for (const scope of result.scopes) {
+    granted.add(normaliseScope(scope));
+  }
+  save(result.account, granted);
+}
+
+/** Scopes known to be granted to `account` (normalised). */
+export function getGrantedScopes(account: AccountInfo | null): string[] {
+  return account ? [...load(account)] : [];
+}
+
+/** Scopes from `scopes` that have not (yet) been granted to `account`. */
+export function getMissingScopes(
+  scopes: string[],
+  account: AccountInfo | null
+): string[] {
+  const granted = account ? load(account) : new Set<string>();
+  return scopes.filter((scope) => {
+    const normalised = normaliseScope(scope);
+    return !OIDC_SCOPES.includes(normalised) && !granted.has(normalised);
+  });
+}
+
+/** True if every scope in `scopes` is known to be granted. */
+export function hasGrantedScopes(
+  scopes: string[],
+  account: AccountInfo | null
+): boolean {
+  return getMissingScopes(scopes, account).length === 0;
+}
+
+/** Forget recorded grants for `account` (e.g. on sign-out). */
+export function clearGrantedScopes(account: AccountInfo): void {
+  grantedByAccount.delete(account.homeAccountId);
+  try {
+    localStorage.removeItem(storageKey(account));
+  } catch {
+    // ignore – see load()
+  }
+}
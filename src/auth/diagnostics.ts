@@ -0,0 +1,184 @@
+/**
+ * diagnostics.ts
+ * ──────────────
+ * In-memory ring buffer of auth events for support cases ("the add-in
+ * keeps asking me to sign in"): token acquisitions, claims challenges,
+ * API calls and MSAL log lines.  Everything is redacted on the way in –
+ * access/ID tokens, bearer values, authorization codes and e-mail
+ * addresses never reach the buffer – so an export can be pasted into a
+ * ticket as-is.
+ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+export type DiagnosticEventType = "token" | "claims" | "api" | "msal" | "error";
+
+/** Scalar detail values – nested objects are not recorded. */
+export type DiagnosticValue = string | number | boolean | null | undefined;
+
+export interface DiagnosticEvent {
+  /** Monotonic sequence number (survives buffer wrap-around). */
+  seq: number;
+  /** ISO-8601 time of the event. */
+  time: string;
+  type: DiagnosticEventType;
+  message: string;
+  details: Record<string, DiagnosticValue>;
+}
+
+/** Support bundle produced by {@link exportDiagnostics}. */
+export interface DiagnosticsExport {
+  generatedAt: string;
+  userAgent: string;
+  host: { name?: string; platform?: string; version?: string };
+  /** Extra context supplied by the caller (auth mode, client ID…). */
+  context: Record<string, DiagnosticValue>;
+  events: DiagnosticEvent[];
+}
+
+/** Default number of events kept. */
+export const DEFAULT_DIAGNOSTICS_CAPACITY = 200;
+
+/* ------------------------------------------------------------------ */
+/*  Redaction                                                         */
+/* ------------------------------------------------------------------ */
+
+const REDACTIONS: [RegExp, string][] = [
+  // JWTs (access / ID tokens) – three base64url segments starting "eyJ"
+  [/eyJ[\w-]+\.[\w-]+\.[\w-]*/g, "[token]"],
+  // Authorization header values
+  [/\b(Bearer|PoP)\s+[\w\-.~+/]+=*/gi, "$1 [token]"],
+  // OAuth parameters carrying secrets
+  [
+    /\b(access_token|id_token|refresh_token|code|client_info)=[^&\s"]+/gi,
+    "$1=[redacted]",
+  ],
+  // Mailbox owners in Graph paths (`/users/{id | upn}/...`)
+  [/\/users\/[^/?#\s]+/gi, "/users/[user]"],
+  // E-mail addresses / UPNs, also percent-encoded (`%40`)
+  [/[\w.+-]+(@|%40)[\w-]+(\.[\w-]+)+/gi, "[email]"],
+];
+
+/** Strip tokens, secrets and e-mail addresses from `text`. */
+export function redact(text: string): string {
+  return REDACTIONS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    text
+  );
+}
+
+function redactValue(value: DiagnosticValue): DiagnosticValue {
+  return typeof value === "string" ? redact(value) : value;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Ring buffer                                                       */
+/* ------------------------------------------------------------------ */
+
+let capacity = DEFAULT_DIAGNOSTICS_CAPACITY;
+let buffer: DiagnosticEvent[] = [];
+let nextSeq = 1;
+const listeners = new Set<(event: DiagnosticEvent) => void>();
+
+/** Change the number of events kept (oldest are dropped first). */
+export function configureDiagnostics(options: { capacity?: number }): void {
+  if (options.capacity !== undefined) {
+    capacity = Math.max(1, options.capacity);
+    buffer = buffer.slice(-capacity);
+  }
+}
+
+/**
+ * Append an event.  `message` and string `details` are redacted;
+ * `undefined` details are dropped.
+ */
+export function recordDiagnostic(
+  type: DiagnosticEventType,
+  message: string,
+  details: Record<string, DiagnosticValue> = {}
+): DiagnosticEvent {
+  const clean: Record<string, DiagnosticValue> = {};
+  for (const [key, value] of Object.entries(details)) {
+    if (value !== undefined) clean[key] = redactValue(value);
+  }
+
+  const event: DiagnosticEvent = {
+    seq: nextSeq++,
+    time: new Date().toISOString(),
+    type,
+    message: redact(message),
+    details: clean,
+  };
+
+  buffer.push(event);
+  if (buffer.length > capacity) {
+    buffer.splice(0, buffer.length - capacity);
+  }
+
+  for (const listener of listeners) {
+    listener(event);
+  }
+  return event;
+}
+
+/** Events currently in the buffer, oldest first. */
+export function getDiagnostics(): DiagnosticEvent[] {
+  return [...buffer];
+}
+
+/** Empty the buffer. */
+export function clearDiagnostics(): void {
+  buffer = [];
+}
+
+/**
+ * Subscribe to new events.
+ *
+ * @returns An unsubscribe function.
+ */
+export function onDiagnostic(
+  listener: (event: DiagnosticEvent) => void
+): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Export                                                            */
+/* ------------------------------------------------------------------ */
+
+function readHostInfo(): DiagnosticsExport["host"] {
+  try {
+    const diagnostics = Office.context.diagnostics;
+    return {
+      name: String(diagnostics.host),
+      platform: String(diagnostics.platform),
+      version: diagnostics.version,
+    };
+  } catch {
+    return {}; // Outside Office (tests, plain browser)
+  }
+}
+
+/**
+ * Build a support bundle: host/browser details, `context` and every
+ * buffered event.
+ */
+export function exportDiagnostics(
+  context: Record<string, DiagnosticValue> = {}
+): DiagnosticsExport {
+  const cleanContext: Record<string, DiagnosticValue> = {};
+  for (const [key, value] of Object.entries(context)) {
+    cleanContext[key] = redactValue(value);
+  }
+
+  return {
+    generatedAt: new Date().toISOString(),
+    userAgent: typeof navigator !== "undefined" ? navigator.userAgent : "",
+    host: readHostInfo(),
+    context: cleanContext,
+    events: getDiagnostics(),
+  };
+}
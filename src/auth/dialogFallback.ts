@@ -0,0 +1,253 @@
+/**
+ * dialogFallback.ts
+ * ─────────────────
+ * Authentication for hosts that do not support Nested App
+ * Authentication.
+ *
+ * Older Outlook builds lack the NAA bridge, and browser popups are
+ * blocked inside add-ins, so interactive sign-in goes through the
+ * Office dialog API instead: `dialog.html` runs a standard MSAL
+ * redirect flow and posts the result back with `messageParent`.  The
+ * dialog shares the add-in's `localStorage` token cache, so later
+ * silent requests in the task pane are served by the standard client.
+ *
+ * The fallback client keeps the `IPublicClientApplication` shape, so
+ * `acquireToken()` and the claims-challenge logic do not care which
+ * path is in use.
+ *
+ * Docs: https://learn.microsoft.com/office/dev/add-ins/develop/auth-with-office-dialog-api
+ */
+
+import {
+  AuthError,
+  BrowserAuthError,
+  BrowserAuthErrorCodes,
+  InteractionRequiredAuthError,
+  createStandardPublicClientApplication,
+  type AuthenticationResult,
+  type Configuration,
+  type IPublicClientApplication,
+  type PopupRequest,
+} from "@azure/msal-browser";
+import { AuthServiceError } from "./errors";
+
+/* ------------------------------------------------------------------ */
+/*  Capability detection                                              */
+/* ------------------------------------------------------------------ */
+
+/**
+ * - `"naa"`    – host supports NestedAppAuth; the host brokers auth.
+ * - `"dialog"` – Office host without NAA; sign in via an Office dialog.
+ * - `"popup"`  – not running in Office (e.g. a plain browser tab).
+ * - `"emulator"` – local CAE emulator (`VITE_CAE_EMULATOR`, dev only).
+ */
+export type AuthMode = "naa" | "dialog" | "popup" | "emulator";
+
+/** Minimum requirement set for Nested App Authentication. */
+export const NAA_REQUIREMENT_SET = { name: "NestedAppAuth", version: "1.1" };
+
+/** Pick the authentication path for the current host. */
+export function detectAuthMode(): AuthMode {
+  if (typeof Office === "undefined" || !Office.context) {
+    return "popup";
+  }
+
+  const { name, version } = NAA_REQUIREMENT_SET;
+  if (Office.context.requirements?.isSetSupported(name, version)) {
+    return "naa";
+  }
+
+  const hasDialogApi =
+    typeof Office.context.ui?.displayDialogAsync === "function";
+  return hasDialogApi ? "dialog" : "popup";
+}
+
+/* ------------------------------------------------------------------ */
+/*  Dialog protocol                                                   */
+/* ------------------------------------------------------------------ */
+
+/** Page that runs the MSAL redirect flow inside the Office dialog. */
+export function getAuthDialogUrl(): string {
+  return `${window.location.origin}/dialog.html`;
+}
+
+/** Request passed to the dialog in its query string. */
+export interface DialogAuthRequest {
+  scopes: string[];
+  claims?: string;
+  loginHint?: string;
+  prompt?: string;
+}
+
+/** Message posted back from the dialog with `messageParent`. */
+export type DialogAuthMessage =
+  | { status: "success"; result: AuthenticationResult }
+  | {
+      status: "error";
+      errorCode: string;
+      errorMessage: string;
+      subError?: string;
+      interactionRequired?: boolean;
+    };
+
+/** Office error code raised when the user closes the dialog. */
+const DIALOG_CLOSED_BY_USER = 12006;
+
+/**
+ * Build the MSAL configuration for the standard (non-NAA) client,
+ * redirecting back to the dialog page.
+ */
+export function getStandardMsalConfig(config: Configuration): Configuration {
+  return {
+    ...config,
+    auth: {
+      ...config.auth,
+      supportsNestedAppAuth: false,
+      redirectUri: getAuthDialogUrl(),
+    },
+  };
+}
+
+/**
+ * Run an interactive request in the Office dialog and resolve with
+ * its `AuthenticationResult`.  Failures are re-created as MSAL errors
+ * so callers handle them exactly like NAA failures; a message that is
+ * not a `DialogAuthMessage` rejects with an `AuthServiceError`.
+ */
+export function acquireTokenViaDialog(
+  request: PopupRequest
+): Promise<AuthenticationResult> {
+  const payload: DialogAuthRequest = {
+    scopes: request.scopes,
+    claims: request.claims,
+    loginHint: request.loginHint ?? request.account?.username,
+    prompt: request.prompt,
+  };
+  const url =
+    `${getAuthDialogUrl()}?request=` +
+    encodeURIComponent(JSON.stringify(payload));
+
+  return new Promise((resolve, reject) => {
+    Office.context.ui.displayDialogAsync(
+      url,
+      { height: 60, width: 30, promptBeforeOpen: false },
+      (opened) => {
+        if (opened.status === Office.AsyncResultStatus.Failed) {
+          reject(
+            new BrowserAuthError(
+              BrowserAuthErrorCodes.popupWindowError,
+              opened.error.message
+            )
+          );
+          return;
+        }
+
+        const dialog = opened.value;
+        const { DialogMessageReceived, DialogEventReceived } = Office.EventType;
+
+        dialog.addEventHandler(DialogMessageReceived, (arg) => {
+          if (!("message" in arg)) return;
+          if (arg.origin && arg.origin !== window.location.origin) return;
+
+          dialog.close();
+          const message = parseDialogMessage(arg.message);
+          if (!message) {
+            reject(
+              new AuthServiceError(
+                "The sign-in dialog sent a response that could not be read."
+              )
+            );
+          } else if (message.status === "success") {
+            resolve(reviveAuthenticationResult(message.result));
+          } else {
+            reject(toMsalError(message));
+          }
+        });
+
+        dialog.addEventHandler(DialogEventReceived, (arg) => {
+          if (!("error" in arg)) return;
+          reject(
+            arg.error === DIALOG_CLOSED_BY_USER
+              ? new BrowserAuthError(BrowserAuthErrorCodes.userCancelled)
+              : new BrowserAuthError(
+                  BrowserAuthErrorCodes.popupWindowError,
+                  `Office dialog error ${arg.error}`
+                )
+          );
+        });
+      }
+    );
+  });
+}
+
+/** The dialog's message, or `undefined` when it is not one. */
+function parseDialogMessage(text: string): DialogAuthMessage | undefined {
+  try {
+    const message = JSON.parse(text) as DialogAuthMessage | null;
+    return message?.status === "success" || message?.status === "error"
+      ? message
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Dates do not survive `JSON.stringify` – restore them. */
+function reviveAuthenticationResult(
+  result: AuthenticationResult
+): AuthenticationResult {
+  return {
+    ...result,
+    expiresOn: result.expiresOn ? new Date(result.expiresOn) : null,
+    extExpiresOn: result.extExpiresOn
+      ? new Date(result.extExpiresOn)
+      : undefined,
+  };
+}
+
+function toMsalError(
+  message: Extract<DialogAuthMessage, { status: "error" }>
+): AuthError {
+  const { errorCode, errorMessage, subError } = message;
+  if (message.interactionRequired) {
+    return new InteractionRequiredAuthError(errorCode, errorMessage, subError);
+  }
+  if (errorCode === BrowserAuthErrorCodes.userCancelled) {
+    return new BrowserAuthError(errorCode, errorMessage);
+  }
+  return new AuthError(errorCode, errorMessage, subError);
+}
+
+/* ------------------------------------------------------------------ */
+/*  Fallback client                                                   */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Create a standard MSAL client whose `acquireTokenPopup` runs in the
+ * Office dialog.  Every other method is the standard client's own.
+ */
+export async function createDialogFallbackClient(
+  config: Configuration
+): Promise<IPublicClientApplication> {
+  const pca = await createStandardPublicClientApplication(
+    getStandardMsalConfig(config)
+  );
+
+  const acquireTokenPopup = async (request: PopupRequest) => {
+    const result = await acquireTokenViaDialog(request);
+    if (result.account) {
+      pca.setActiveAccount(result.account);
+    }
+    return result;
+  };
+
+  return new Proxy(pca, {
+    get(target, prop) {
+      if (prop === "acquireTokenPopup") {
+        return acquireTokenPopup;
+      }
+      const value = Reflect.get(target, prop, target);
+      return typeof value === "function" ? value.bind(target) : value;
+    },
+  });
+}
@@ -0,0 +1,154 @@
+/**
+ * emulatorClient.ts
+ * ─────────────────
+ * Stub token provider for local development against the CAE emulator
+ * that `vite.config.ts` mounts in the dev server (`VITE_CAE_EMULATOR`).
+ * Reproducing a claims challenge otherwise needs a real tenant with
+ * Conditional Access policies.
+ *
+ * The client keeps the `IPublicClientApplication` shape the auth
+ * service uses, and gets its (unsigned) tokens from the emulator's
+ * `/_token` endpoint.  Emulator faults surface as the errors MSAL would
+ * throw: an `InteractionRequiredAuthError` when a prompt is needed (no
+ * session, step-up), an `AuthError` carrying the AADSTS code when the
+ * session is revoked.  Never used in production builds.
+ */
+
+import {
+  AuthError,
+  InteractionRequiredAuthError,
+  type AccountInfo,
+  type AuthenticationResult,
+  type IPublicClientApplication,
+  type PopupRequest,
+  type SilentRequest,
+} from "@azure/msal-browser";
+
+/** Path of the emulator in the dev server (see `vite.config.ts`). */
+export const EMULATOR_BASE_PATH = "/cae-emulator";
+
+/** The emulator's only user. */
+export const emulatorAccount: AccountInfo = {
+  homeAccountId: "emulator-oid.emulator-tid",
+  environment: "cae-emulator",
+  tenantId: "emulator-tid",
+  username: "megan@contoso.dev",
+  localAccountId: "emulator-oid",
+  name: "Megan Bowen (emulated)",
+};
+
+/** Body of a `/_token` response. */
+type EmulatorTokenResponse =
+  | { access_token: string; expires_in: number; scope: string }
+  | { error: string; error_description: string; claims?: string };
+
+/** Emulator base URL (`<origin>/cae-emulator`). */
+export function getEmulatorBaseUrl(): string {
+  return `${window.location.origin}${EMULATOR_BASE_PATH}`;
+}
+
+/**
+ * Create the stub client.  Sign-in is a `/_token` call made through
+ * `acquireTokenPopup`; silent calls reuse tokens per scope set until
+ * they expire or a request carries claims / `forceRefresh`.
+ */
+export function createEmulatorClient(
+  baseUrl = getEmulatorBaseUrl()
+): IPublicClientApplication {
+  let signedIn = false;
+  let active: AccountInfo | null = null;
+  const cache = new Map<string, AuthenticationResult>();
+  const cacheKey = (scopes: string[]) =>
+    [...scopes].sort().join(" ").toLowerCase();
+
+  const requestToken = async (
+    request: PopupRequest | SilentRequest,
+    interactive: boolean
+  ): Promise<AuthenticationResult> => {
+    const response = await fetch(`${baseUrl}/_token`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        scopes: request.scopes,
+        claims: request.claims,
+        interactive,
+      }),
+    });
+    const body = (await response.json()) as EmulatorTokenResponse;
+
+    if ("error" in body) {
+      throw body.error === "interaction_required"
+        ? new InteractionRequiredAuthError(
+            body.error,
+            body.error_description,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            body.claims
+          )
+        : new AuthError(body.error, body.error_description);
+    }
+
+    const expiresOn = new Date(Date.now() + body.expires_in * 1000);
+    return {
+      authority: baseUrl,
+      uniqueId: emulatorAccount.localAccountId,
+      tenantId: emulatorAccount.tenantId,
+      scopes: body.scope.split(" "),
+      account: emulatorAccount,
+      idToken: "",
+      idTokenClaims: {},
+      accessToken: body.access_token,
+      fromCache: false,
+      expiresOn,
+      tokenType: "Bearer",
+      correlationId: crypto.randomUUID(),
+    };
+  };
+
+  const client: Partial<IPublicClientApplication> = {
+    acquireTokenSilent: async (request: SilentRequest) => {
+      if (!signedIn) {
+        throw new InteractionRequiredAuthError(
+          "interaction_required",
+          "Sign in to the CAE emulator first."
+        );
+      }
+
+      const key = cacheKey(request.scopes);
+      const cached = cache.get(key);
+      if (
+        cached?.expiresOn &&
+        cached.expiresOn.getTime() > Date.now() &&
+        !request.claims &&
+        !request.forceRefresh
+      ) {
+        return { ...cached, fromCache: true };
+      }
+
+      const result = await requestToken(request, false);
+      cache.set(key, result);
+      return result;
+    },
+    acquireTokenPopup: async (request: PopupRequest) => {
+      const result = await requestToken(request, true);
+      cache.set(cacheKey(request.scopes), result);
+      signedIn = true;
+      active = emulatorAccount;
+      return result;
+    },
+    getActiveAccount: () => active,
+    setActiveAccount: (account: AccountInfo | null) => {
+      active = account;
+    },
+    getAllAccounts: () => (signedIn ? [emulatorAccount] : []),
+    clearCache: async () => {
+      signedIn = false;
+      active = null;
+      cache.clear();
+    },
+  };
+
+  return client as IPublicClientApplication;
+}
@@ -0,0 +1,327 @@
+/**
+ * errors.ts
+ * ─────────
+ * Typed errors thrown by the auth service and API helpers.  Every
+ * error extends {@link AuthServiceError} and carries a stable `code`,
+ * so views can branch on `instanceof` (or `code`) and show the right
+ * remediation instead of matching on message text.
+ *
+ * MSAL errors are translated with {@link toAuthServiceError}; the
+ * original error is kept on `cause`.
+ */
+
+import {
+  AuthError,
+  BrowserAuthErrorCodes,
+  InteractionRequiredAuthError,
+  InteractionRequiredAuthErrorCodes,
+} from "@azure/msal-browser";
+
+import type { AuthChallenge, AuthChallengeKind } from "./wwwAuthenticate";
+
+/* ------------------------------------------------------------------ */
+/*  Base class                                                        */
+/* ------------------------------------------------------------------ */
+
+export type AuthErrorCode =
+  | "unknown"
+  | "interaction_required"
+  | "session_revoked"
+  | "consent_required"
+  | "admin_consent_required"
+  | "user_cancelled"
+  | "naa_unsupported"
+  | "auth_challenge"
+  | "claims_challenge_unresolved"
+  | "api_error"
+  | "throttled"
+  | "configuration";
+
+export class AuthServiceError extends Error {
+  readonly code: AuthErrorCode = "unknown";
+  readonly cause?: unknown;
+
+  constructor(message: string, cause?: unknown) {
+    super(message);
+    this.name = "AuthServiceError";
+    this.cause = cause;
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Token acquisition errors                                          */
+/* ------------------------------------------------------------------ */
+
+/** The user must interact (sign in, MFA) and it could not happen. */
+export class InteractionRequiredError extends AuthServiceError {
+  override readonly code: AuthErrorCode = "interaction_required";
+
+  constructor(message = "User interaction is required.", cause?: unknown) {
+    super(message, cause);
+    this.name = "InteractionRequiredError";
+  }
+}
+
+/** Why Entra ID ended a session (see {@link SessionRevokedError}). */
+export type SessionRevocationReason =
+  | "account_disabled"
+  | "password_changed"
+  | "policy_blocked"
+  | "revoked";
+
+/**
+ * The session was revoked – the account was disabled or deleted, the
+ * password changed, or a Conditional Access policy (e.g. location)
+ * now blocks it.  Tokens for the account are useless: the auth
+ * service ends the session (see `onSessionEnded`).
+ */
+export class SessionRevokedError extends InteractionRequiredError {
+  override readonly code = "session_revoked";
+
+  constructor(
+    public readonly reason: SessionRevocationReason,
+    message = "Your session has ended.",
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = "SessionRevokedError";
+  }
+}
+
+/** The requested scopes have not been consented to. */
+export class ConsentRequiredError extends AuthServiceError {
+  override readonly code: AuthErrorCode = "consent_required";
+
+  constructor(
+    message = "Consent is required for the requested permissions.",
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = "ConsentRequiredError";
+  }
+}
+
+/**
+ * The scopes need tenant-wide admin consent – the user cannot grant
+ * them, so retrying interactively will not help.
+ */
+export class AdminConsentRequiredError extends ConsentRequiredError {
+  override readonly code = "admin_consent_required";
+
+  constructor(
+    message = "An administrator must approve the requested permissions.",
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = "AdminConsentRequiredError";
+  }
+}
+
+/** The user closed or cancelled the sign-in prompt. */
+export class UserCancelledError extends AuthServiceError {
+  override readonly code = "user_cancelled";
+
+  constructor(message = "Sign-in was cancelled.", cause?: unknown) {
+    super(message, cause);
+    this.name = "UserCancelledError";
+  }
+}
+
+/** The Office host does not support Nested App Authentication. */
+export class NaaUnsupportedError extends AuthServiceError {
+  override readonly code = "naa_unsupported";
+
+  constructor(
+    message = "This Office host does not support Nested App Authentication.",
+    cause?: unknown
+  ) {
+    super(message, cause);
+    this.name = "NaaUnsupportedError";
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Challenge errors                                                  */
+/* ------------------------------------------------------------------ */
+
+/**
+ * A 401 whose challenge is not a retryable CAE claims challenge
+ * (`invalid_token`, `insufficient_scope`, …).
+ */
+export class AuthChallengeError extends AuthServiceError {
+  override readonly code: AuthErrorCode = "auth_challenge";
+
+  constructor(
+    public readonly kind: AuthChallengeKind,
+    public readonly challenges: AuthChallenge[],
+    public readonly status = 401
+  ) {
+    const primary = challenges[0];
+    const detail =
+      primary?.errorDescription ?? primary?.error ?? "no challenge";
+    super(`Authentication challenge (${kind}): ${detail}`);
+    this.name = "AuthChallengeError";
+  }
+}
+
+/** A CAE claims challenge persisted after the one-shot retry. */
+export class ClaimsChallengeUnresolvedError extends AuthChallengeError {
+  override readonly code = "claims_challenge_unresolved";
+
+  constructor(challenges: AuthChallenge[]) {
+    super("claims", challenges);
+    this.message =
+      "A Conditional Access claims challenge could not be satisfied.";
+    this.name = "ClaimsChallengeUnresolvedError";
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  API errors                                                        */
+/* ------------------------------------------------------------------ */
+
+/** Non-success HTTP response from a protected API. */
+export class ApiError extends AuthServiceError {
+  override readonly code: AuthErrorCode = "api_error";
+
+  constructor(
+    public readonly resourceId: string,
+    public readonly status: number,
+    public readonly statusText: string,
+    public readonly body: string,
+    /** Server request ID (`request-id` / `client-request-id`), for support. */
+    public readonly requestId?: string
+  ) {
+    super(`API error (${resourceId}) ${status}: ${statusText}`);
+    this.name = "ApiError";
+  }
+
+  /** Build the appropriate `ApiError` (or subclass) from a response. */
+  static async fromResponse(
+    resourceId: string,
+    response: Response
+  ): Promise<ApiError> {
+    const body = await response.text().catch(() => "");
+    const requestId =
+      response.headers.get("request-id") ??
+      response.headers.get("client-request-id") ??
+      undefined;
+
+    if (response.status === 429 || response.status === 503) {
+      const retryAfter = Number(response.headers.get("Retry-After"));
+      return new ThrottledError(
+        resourceId,
+        response.status,
+        response.statusText,
+        body,
+        requestId,
+        Number.isFinite(retryAfter) ? retryAfter * 1000 : undefined
+      );
+    }
+
+    return new ApiError(
+      resourceId,
+      response.status,
+      response.statusText,
+      body,
+      requestId
+    );
+  }
+}
+
+/** Throttled (429 / 503) after the retry budget was spent. */
+export class ThrottledError extends ApiError {
+  override readonly code = "throttled";
+
+  constructor(
+    resourceId: string,
+    status: number,
+    statusText: string,
+    body: string,
+    requestId?: string,
+    /** Server-suggested wait before trying again. */
+    public readonly retryAfterMs?: number
+  ) {
+    super(resourceId, status, statusText, body, requestId);
+    this.name = "ThrottledError";
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  Configuration errors                                              */
+/* ------------------------------------------------------------------ */
+
+/** Missing or invalid runtime configuration (client ID, cloud, …). */
+export class ConfigurationError extends AuthServiceError {
+  override readonly code = "configuration";
+
+  constructor(message: string) {
+    super(message);
+    this.name = "ConfigurationError";
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  MSAL translation                                                  */
+/* ------------------------------------------------------------------ */
+
+/** AADSTS codes meaning the session is gone, not merely stale. */
+const REVOCATION_CODES: [RegExp, SessionRevocationReason][] = [
+  // Account disabled, locked or deleted
+  [/AADSTS(50057|50053|50034)\b/, "account_disabled"],
+  // Session invalid after a password change, reset or expiry
+  [/AADSTS(50133|50132|50144)\b/, "password_changed"],
+  // Blocked by Conditional Access (e.g. a location policy)
+  [/AADSTS53003\b/, "policy_blocked"],
+  // Grant revoked by the user or an administrator
+  [/AADSTS50173\b/, "revoked"],
+];
+
+/** The revocation reason in an MSAL error message, if any. */
+export function findRevocationReason(
+  message: string
+): SessionRevocationReason | undefined {
+  return REVOCATION_CODES.find(([pattern]) => pattern.test(message))?.[1];
+}
+
+/**
+ * Translate any thrown value (MSAL errors included) into an
+ * {@link AuthServiceError}.  Errors that already are one pass through.
+ */
+export function toAuthServiceError(error: unknown): AuthServiceError {
+  if (error instanceof AuthServiceError) {
+    return error;
+  }
+
+  if (error instanceof AuthError) {
+    const { errorCode, errorMessage, subError } = error;
+
+    if (errorCode === BrowserAuthErrorCodes.userCancelled) {
+      return new UserCancelledError(undefined, error);
+    }
+    const revocation = findRevocationReason(errorMessage);
+    if (revocation) {
+      return new SessionRevokedError(revocation, undefined, error);
+    }
+    // AADSTS90094 / AADSTS90099: the grant needs admin permission
+    if (/AADSTS9009[49]|admin_consent_required/i.test(errorMessage)) {
+      return new AdminConsentRequiredError(undefined, error);
+    }
+    if (
+      errorCode === InteractionRequiredAuthErrorCodes.consentRequired ||
+      subError === InteractionRequiredAuthErrorCodes.consentRequired ||
+      /AADSTS65001/.test(errorMessage)
+    ) {
+      return new ConsentRequiredError(errorMessage || undefined, error);
+    }
+    if (errorCode === "unsupported_method") {
+      return new NaaUnsupportedError(undefined, error);
+    }
+    if (error instanceof InteractionRequiredAuthError) {
+      return new InteractionRequiredError(errorMessage || undefined, error);
+    }
+  }
+
+  const message = error instanceof Error ? error.message : String(error);
+  return new AuthServiceError(message, error);
+}
@@ -0,0 +1,259 @@
+/**
+ * graphBatch.ts
+ * ─────────────
+ * JSON batching (`POST /$batch`) for Microsoft Graph with per-request
+ * claims-challenge handling.
+ *
+ * Graph answers a batch with HTTP 200 even when individual requests
+ * fail, so a CAE challenge can hide inside a single batch response.
+ * `callGraphBatch()` inspects every inner response; if any is a 401
+ * carrying a claims challenge, the challenge is stored, a new token is
+ * acquired and **only the affected requests** are re-sent (once).
+ *
+ * Docs: https://learn.microsoft.com/graph/json-batching
+ */
+
+import { callGraphWithClaimsRetry } from "./authService";
+import { getProtectedResource } from "./resourceRegistry";
+import {
+  parseClaimsChallengeFromHeader,
+  storeClaimsChallenge,
+} from "./claimsManager";
+import type { ApiMethod } from "./apiRequest";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+/** Graph limits a single `$batch` payload to 20 requests. */
+export const GRAPH_BATCH_LIMIT = 20;
+
+export interface GraphBatchRequest {
+  /** Unique ID within the batch (defaults to the request's index). */
+  id?: string;
+  method?: ApiMethod;
+  /** URL relative to the Graph version root, e.g. "/me/messages". */
+  url: string;
+  headers?: Record<string, string>;
+  /** JSON body; `Content-Type: application/json` is added if missing. */
+  body?: unknown;
+  /**
+   * IDs this request depends on.  Requests linked this way are sent in
+   * the same chunk when the chain fits in {@link GRAPH_BATCH_LIMIT};
+   * dependencies outside a chunk (e.g. already answered before a
+   * claims retry) are dropped from it, as Graph rejects them.
+   */
+  dependsOn?: string[];
+}
+
+type NormalisedRequest = GraphBatchRequest & { id: string };
+
+export interface GraphBatchResponse<T = unknown> {
+  id: string;
+  status: number;
+  headers: Record<string, string>;
+  body: T;
+}
+
+interface GraphBatchPayload {
+  responses: GraphBatchResponse[];
+}
+
+/* ------------------------------------------------------------------ */
+/*  Public API                                                        */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Execute `requests` via Graph `$batch`, in chunks of
+ * {@link GRAPH_BATCH_LIMIT}.
+ *
+ * @returns One response per request, in the order of `requests`.
+ */
+export async function callGraphBatch(
+  requests: GraphBatchRequest[],
+  scopes: string[]
+): Promise<GraphBatchResponse[]> {
+  const normalised: NormalisedRequest[] = requests.map((request, index) => ({
+    ...request,
+    id: request.id ?? String(index),
+    method: request.method ?? "GET",
+  }));
+
+  const responses = new Map<string, GraphBatchResponse>();
+
+  for (const chunk of chunkRequests(normalised)) {
+    for (const response of await sendBatch(chunk, scopes)) {
+      responses.set(response.id, response);
+    }
+  }
+
+  // Requests rejected with a claims challenge → retry those, and the
+  // requests that failed because of them, once
+  const claimsKey = getProtectedResource("graph").claimsKey;
+  const challenged = normalised.filter((request) => {
+    const response = responses.get(request.id);
+    const claims = response && getClaimsFromBatchResponse(response);
+    if (claims) {
+      storeClaimsChallenge(claimsKey, claims);
+      return true;
+    }
+    return false;
+  });
+
+  const retry = withFailedDependents(normalised, challenged, responses);
+  for (const chunk of chunkRequests(retry)) {
+    for (const response of await sendBatch(chunk, scopes)) {
+      responses.set(response.id, response);
+    }
+  }
+
+  return normalised.map(
+    (request) =>
+      responses.get(request.id) ?? {
+        id: request.id,
+        status: 0,
+        headers: {},
+        body: undefined,
+      }
+  );
+}
+
+/**
+ * Return the decoded claims challenge carried by an individual batch
+ * response, or `undefined` when it is not a 401 with a challenge.
+ */
+export function getClaimsFromBatchResponse(
+  response: GraphBatchResponse
+): string | undefined {
+  if (response.status !== 401) {
+    return undefined;
+  }
+
+  // Header names inside batch responses are not normalised
+  const header = Object.entries(response.headers ?? {}).find(
+    ([name]) => name.toLowerCase() === "www-authenticate"
+  )?.[1];
+
+  return header ? parseClaimsChallengeFromHeader(header) : undefined;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Internals                                                         */
+/* ------------------------------------------------------------------ */
+
+/**
+ * `challenged` plus the requests that failed with 424 (Failed
+ * Dependency) because they depend, directly or through other such
+ * requests, on one of them.  Keeps the order of `requests`.
+ */
+function withFailedDependents(
+  requests: NormalisedRequest[],
+  challenged: NormalisedRequest[],
+  responses: Map<string, GraphBatchResponse>
+): NormalisedRequest[] {
+  const retry = new Set(challenged.map((request) => request.id));
+  for (let grown = true; grown; ) {
+    grown = false;
+    for (const request of requests) {
+      if (
+        !retry.has(request.id) &&
+        responses.get(request.id)?.status === 424 &&
+        request.dependsOn?.some((id) => retry.has(id))
+      ) {
+        retry.add(request.id);
+        grown = true;
+      }
+    }
+  }
+  return requests.filter((request) => retry.has(request.id));
+}
+
+/**
+ * Split `requests` into chunks of at most {@link GRAPH_BATCH_LIMIT},
+ * in order, keeping requests linked through `dependsOn` together.  A
+ * chain longer than the limit is split.
+ */
+function chunkRequests(requests: NormalisedRequest[]): NormalisedRequest[][] {
+  // Union-find over request IDs: a request joins its dependencies' group
+  const parent = new Map<string, string>();
+  const find = (id: string): string => {
+    const up = parent.get(id) ?? id;
+    if (up === id) return id;
+    const root = find(up);
+    parent.set(id, root);
+    return root;
+  };
+  const ids = new Set(requests.map((request) => request.id));
+  for (const request of requests) {
+    for (const id of request.dependsOn ?? []) {
+      if (ids.has(id)) parent.set(find(id), find(request.id));
+    }
+  }
+
+  // Groups in the order of their first request
+  const groups = new Map<string, NormalisedRequest[]>();
+  for (const request of requests) {
+    const root = find(request.id);
+    groups.set(root, [...(groups.get(root) ?? []), request]);
+  }
+
+  const chunks: NormalisedRequest[][] = [];
+  let current: NormalisedRequest[] = [];
+  for (const group of groups.values()) {
+    const fits = current.length + group.length <= GRAPH_BATCH_LIMIT;
+    if (current.length > 0 && !fits) {
+      chunks.push(current);
+      current = [];
+    }
+    for (const request of group) {
+      if (current.length === GRAPH_BATCH_LIMIT) {
+        chunks.push(current);
+        current = [];
+      }
+      current.push(request);
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+  return chunks;
+}
+
+async function sendBatch(
+  chunk: NormalisedRequest[],
+  scopes: string[]
+): Promise<GraphBatchResponse[]> {
+  const ids = new Set(chunk.map((request) => request.id));
+  const payload = await callGraphWithClaimsRetry<GraphBatchPayload>(
+    "/$batch",
+    scopes,
+    {
+      method: "POST",
+      json: { requests: chunk.map((request) => toBatchItem(request, ids)) },
+    }
+  );
+  return payload.responses;
+}
+
+function toBatchItem(
+  request: GraphBatchRequest,
+  chunkIds: Set<string>
+): GraphBatchRequest {
+  // Graph rejects the whole batch for a dependency it was not sent
+  const { dependsOn, ...rest } = request;
+  const inChunk = dependsOn?.filter((id) => chunkIds.has(id)) ?? [];
+  const item = inChunk.length > 0 ? { ...rest, dependsOn: inChunk } : rest;
+
+  if (item.body === undefined) {
+    return item;
+  }
+
+  const hasContentType = Object.keys(item.headers ?? {}).some(
+    (name) => name.toLowerCase() === "content-type"
+  );
+
+  return hasContentType
+    ? item
+    : {
+        ...item,
+        headers: { ...item.headers, "Content-Type": "application/json" },
+      };
+}
@@ -0,0 +1,95 @@
+/**
+ * graphPaging.ts
+ * ──────────────
+ * Async iteration over paged Microsoft Graph collections.  Each page
+ * is fetched through `callGraphWithClaimsRetry()`, so claims
+ * challenges raised mid-iteration are handled like any other call.
+ */
+
+import { callGraphWithClaimsRetry } from "./authService";
+import type { ApiRequestOptions } from "./apiRequest";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+/** One page of an OData collection as returned by Graph. */
+export interface GraphPage<T> {
+  value: T[];
+  "@odata.nextLink"?: string;
+  "@odata.deltaLink"?: string;
+  "@odata.count"?: number;
+  [key: string]: unknown;
+}
+
+/** Options for paged GETs: headers (e.g. `ConsistencyLevel`), retry, abort. */
+export type GraphPagingOptions = Pick<
+  ApiRequestOptions,
+  "headers" | "retry" | "signal"
+>;
+
+/* ------------------------------------------------------------------ */
+/*  Iterators                                                         */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Yield every page of a Graph collection, following
+ * `@odata.nextLink` until the last page.
+ *
+ * @param endpoint  First page (e.g. "/me/messages?$top=50").
+ * @param scopes    Scopes for the access token.
+ */
+export async function* iterateGraphPages<T>(
+  endpoint: string,
+  scopes: string[],
+  options: GraphPagingOptions = {}
+): AsyncGenerator<GraphPage<T>, void, undefined> {
+  let next: string | undefined = endpoint;
+
+  while (next) {
+    const page: GraphPage<T> = await callGraphWithClaimsRetry<GraphPage<T>>(
+      next,
+      scopes,
+      options
+    );
+    yield page;
+    next = page["@odata.nextLink"];
+  }
+}
+
+/**
+ * Yield every item of a Graph collection across all pages.  Stop
+ * iterating (`break`) to avoid fetching further pages.
+ */
+export async function* iterateGraphItems<T>(
+  endpoint: string,
+  scopes: string[],
+  options: GraphPagingOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of iterateGraphPages<T>(endpoint, scopes, options)) {
+    yield* page.value;
+  }
+}
+
+/**
+ * Collect the items of a Graph collection into an array, stopping
+ * once `maxItems` have been read (default: all pages).
+ */
+export async function collectGraphItems<T>(
+  endpoint: string,
+  scopes: string[],
+  options: GraphPagingOptions & { maxItems?: number } = {}
+): Promise<T[]> {
+  const { maxItems = Infinity, ...pagingOptions } = options;
+  const items: T[] = [];
+
+  if (maxItems <= 0) return items;
+
+  const iterator = iterateGraphItems<T>(endpoint, scopes, pagingOptions);
+  for await (const item of iterator) {
+    items.push(item);
+    if (items.length >= maxItems) break;
+  }
+
+  return items;
+}
@@ -0,0 +1,125 @@
+/**
+ * hostIdentity.ts
+ * ───────────────
+ * Reads the identity of the user signed in to the Office host and
+ * matches it against the MSAL account cache.
+ *
+ * Users frequently have several accounts in Outlook (work + personal,
+ * or multiple mailboxes), so "the first cached account" is not a safe
+ * default.  `Office.auth.getAuthContext()` (NestedAppAuth 1.1) gives
+ * the host's UPN, tenant and object ID; older hosts fall back to the
+ * mailbox owner's SMTP address from `Office.context.mailbox`.
+ */
+
+import type { AccountInfo } from "@azure/msal-browser";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+export interface HostIdentity {
+  /** Where the identity came from. */
+  source: "authContext" | "mailbox";
+  /** Login hint to pass to MSAL (UPN or SMTP address). */
+  loginHint: string;
+  userPrincipalName?: string;
+  /** SMTP address of the mailbox being viewed. */
+  emailAddress?: string;
+  tenantId?: string;
+  userObjectId?: string;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Reading the host identity                                         */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Ask the Office host who is signed in.  Returns `null` outside Office
+ * or when neither API is available.
+ */
+export async function readHostIdentity(): Promise<HostIdentity | null> {
+  if (typeof Office === "undefined") {
+    return null;
+  }
+
+  const emailAddress = Office.context?.mailbox?.userProfile?.emailAddress;
+
+  if (Office.auth?.getAuthContext) {
+    try {
+      const context = await Office.auth.getAuthContext();
+      return {
+        source: "authContext",
+        loginHint: context.loginHint || context.userPrincipalName,
+        userPrincipalName: context.userPrincipalName,
+        emailAddress,
+        tenantId: context.tenantId,
+        userObjectId: context.userObjectId,
+      };
+    } catch {
+      // Not supported on this host build – fall back to the mailbox
+    }
+  }
+
+  return emailAddress
+    ? { source: "mailbox", loginHint: emailAddress, emailAddress }
+    : null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Matching                                                          */
+/* ------------------------------------------------------------------ */
+
+function namesOf(account: AccountInfo): string[] {
+  const claims = account.idTokenClaims ?? {};
+  return [
+    account.username,
+    claims.preferred_username,
+    claims.email,
+    claims.login_hint,
+    claims.upn,
+  ]
+    .filter((name): name is string => typeof name === "string" && !!name)
+    .map((name) => name.toLowerCase());
+}
+
+/**
+ * True if `account` belongs to the host user.  Object ID + tenant is
+ * decisive when known; otherwise the UPN / e-mail must match (and the
+ * tenant too, when the host reported one).
+ */
+export function accountMatchesIdentity(
+  account: AccountInfo,
+  identity: HostIdentity
+): boolean {
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+  if (
+    identity.tenantId &&
+    account.tenantId &&
+    !same(identity.tenantId, account.tenantId)
+  ) {
+    return false;
+  }
+
+  if (identity.userObjectId && account.localAccountId) {
+    return same(identity.userObjectId, account.localAccountId);
+  }
+
+  const names = namesOf(account);
+  const hostNames = [
+    identity.userPrincipalName,
+    identity.emailAddress,
+    identity.loginHint,
+  ];
+  return hostNames
+    .filter((name): name is string => !!name)
+    .some((name) => names.includes(name.toLowerCase()));
+}
+
+/** The cached account that belongs to the host user, if any. */
+export function findMatchingAccount(
+  accounts: AccountInfo[],
+  identity: HostIdentity
+): AccountInfo | undefined {
+  return accounts.find((account) => accountMatchesIdentity(account, identity));
+}
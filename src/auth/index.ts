@@ -1,9 +1,156 @@
-export { getMsalInstance, getActiveAccount, login, logout, acquireToken, callGraphWithClaimsRetry } from "./authService";
-export { msalConfig, loginRequest, graphScopes, buildGraphRequest, CLIENT_ID, AUTHORITY } from "./authConfig";
+export { getMsalInstance, setMsalInstance, getAuthMode, getActiveAccount, getAccounts, switchAccount, isAccountMismatch, getHostIdentity, refreshHostIdentity, login, logout, logoutAll, onSessionEnded, acquireToken, callApiWithClaimsRetry, callGraphWithClaimsRetry, configureTokenRefresh, configureInteractiveAuth, hasAuthContext, DEFAULT_REFRESH_MARGIN_MS } from "./authService";
+export type { TokenResult, TokenRefreshOptions, AcquireTokenOptions, SessionEndedEvent } from "./authService";
+export {
+  assertAuthContextId,
+  buildAuthContextClaims,
+  isAuthContextId,
+  tokenSatisfiesAuthContext,
+} from "./authContext";
+export {
+  decodeAccessToken,
+  isCaeToken,
+  getTokenStatus,
+  setTokenStatus,
+  clearTokenStatuses,
+  onTokenStatusChange,
+} from "./tokenStatus";
+export type { AccessTokenClaims, TokenStatus } from "./tokenStatus";
+export { msalConfig, loginRequest, graphScopes, buildGraphRequest, CLIENT_ID, AUTHORITY, PLACEHOLDER_CLIENT_ID, GRAPH_BASE, protectedResources, featureScopes, authContexts } from "./authConfig";
+export type { ProtectedResource, FeatureId } from "./authConfig";
+export {
+  getFeatureScopes,
+  normaliseScope,
+  recordGrantedScopes,
+  getGrantedScopes,
+  getMissingScopes,
+  hasGrantedScopes,
+  clearGrantedScopes,
+} from "./consent";
+export {
+  detectAuthMode,
+  createDialogFallbackClient,
+  acquireTokenViaDialog,
+  getAuthDialogUrl,
+  NAA_REQUIREMENT_SET,
+} from "./dialogFallback";
+export type { AuthMode, DialogAuthRequest, DialogAuthMessage } from "./dialogFallback";
+export {
+  createEmulatorClient,
+  getEmulatorBaseUrl,
+  emulatorAccount,
+  EMULATOR_BASE_PATH,
+} from "./emulatorClient";
+export { readHostIdentity, accountMatchesIdentity, findMatchingAccount } from "./hostIdentity";
+export type { HostIdentity } from "./hostIdentity";
+export {
+  cloudEnvironments,
+  getAppConfig,
+  getAuthority,
+  getGraphBaseUrl,
+  readEnvConfig,
+  parseRuntimeConfig,
+  validateAppConfig,
+  loadAppConfig,
+  ensureAppConfig,
+  applyAppConfig,
+  qualifyGraphScopes,
+} from "./appConfig";
+export type { AppConfig, CloudName, CloudEnvironment } from "./appConfig";
+export {
+  registerProtectedResource,
+  getProtectedResource,
+  getProtectedResourceIds,
+  resolveResourceUrl,
+} from "./resourceRegistry";
+export { buildRequestInit, readResponseBody } from "./apiRequest";
+export {
+  configureResponseCache,
+  createIndexedDbCacheStorage,
+  createMemoryCacheStorage,
+  purgeResponseCache,
+  responseCacheKey,
+  DEFAULT_RESPONSE_CACHE_DB,
+} from "./responseCache";
+export type {
+  CachedResponse,
+  ResponseCacheOptions,
+  ResponseCacheStorage,
+} from "./responseCache";
+export type {
+  ApiMethod,
+  ApiResponseType,
+  ApiBinaryBody,
+  ApiRequestOptions,
+} from "./apiRequest";
+export {
+  configureRetryPolicy,
+  resolveRetryPolicy,
+  parseRetryAfter,
+  computeBackoffDelay,
+  fetchWithRetry,
+} from "./retryPolicy";
+export type { RetryPolicy } from "./retryPolicy";
+export { iterateGraphPages, iterateGraphItems, collectGraphItems } from "./graphPaging";
+export type { GraphPage, GraphPagingOptions } from "./graphPaging";
+export { callGraphBatch, getClaimsFromBatchResponse, GRAPH_BATCH_LIMIT } from "./graphBatch";
+export type { GraphBatchRequest, GraphBatchResponse } from "./graphBatch";
 export {
   storeClaimsChallenge,
   getStoredClaimsChallenge,
+  getAllStoredClaimsChallenges,
   clearClaimsChallenge,
+  configureClaimsStore,
+  onClaimsChallengeChange,
+  DEFAULT_CLAIMS_TTL_MS,
+  DEFAULT_CLAIMS_CHANNEL,
   parseClaimsChallengeFromHeader,
   handleClaimsChallengeFromResponse,
+  getAuthChallengesFromResponse,
 } from "./claimsManager";
+export type { ClaimsStoreOptions, ClaimsChallengeChange } from "./claimsManager";
+export {
+  createWebStorage,
+  createMemoryStorage,
+  mergeClaims,
+} from "./claimsStore";
+export type { ClaimsStorage, StoredClaimsEntry } from "./claimsStore";
+export {
+  AuthServiceError,
+  InteractionRequiredError,
+  SessionRevokedError,
+  ConsentRequiredError,
+  AdminConsentRequiredError,
+  UserCancelledError,
+  NaaUnsupportedError,
+  AuthChallengeError,
+  ClaimsChallengeUnresolvedError,
+  ApiError,
+  ThrottledError,
+  ConfigurationError,
+  toAuthServiceError,
+  findRevocationReason,
+} from "./errors";
+export type { AuthErrorCode, SessionRevocationReason } from "./errors";
+export {
+  recordDiagnostic,
+  getDiagnostics,
+  clearDiagnostics,
+  onDiagnostic,
+  configureDiagnostics,
+  exportDiagnostics,
+  redact,
+  DEFAULT_DIAGNOSTICS_CAPACITY,
+} from "./diagnostics";
+export type {
+  DiagnosticEvent,
+  DiagnosticEventType,
+  DiagnosticValue,
+  DiagnosticsExport,
+} from "./diagnostics";
+export {
+  parseWwwAuthenticate,
+  classifyAuthChallenge,
+  findClaimsChallenge,
+  decodeClaimsValue,
+} from "./wwwAuthenticate";
+export type { AuthChallenge, AuthChallengeKind } from "./wwwAuthenticate";
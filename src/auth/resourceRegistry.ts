@@ -0,0 +1,76 @@
+/**
+ * resourceRegistry.ts
+ * ───────────────────
+ * Runtime registry of the protected APIs the add-in can call through
+ * `callApiWithClaimsRetry()`.  Each entry declares its base URL,
+ * default scopes and the key used to store its claims challenges, so
+ * the same CAE retry logic works for Graph, SharePoint or any custom
+ * API protected by Azure AD.
+ */
+
+import { protectedResources, type ProtectedResource } from "./authConfig";
+import { ConfigurationError } from "./errors";
+
+/* ------------------------------------------------------------------ */
+/*  Registry                                                          */
+/* ------------------------------------------------------------------ */
+
+const registry = new Map<string, ProtectedResource>(
+  Object.entries(protectedResources)
+);
+
+/**
+ * Register (or replace) a protected resource under `resourceId`.
+ * Trailing slashes on `baseUrl` are stripped.
+ */
+export function registerProtectedResource(
+  resourceId: string,
+  resource: ProtectedResource
+): void {
+  registry.set(resourceId, {
+    ...resource,
+    baseUrl: resource.baseUrl.replace(/\/+$/, ""),
+  });
+}
+
+/**
+ * Look up a registered resource.  Throws a `ConfigurationError` when
+ * `resourceId` is unknown so misconfigured calls fail loudly instead
+ * of hitting the wrong API.
+ */
+export function getProtectedResource(resourceId: string): ProtectedResource {
+  const resource = registry.get(resourceId);
+  if (!resource) {
+    throw new ConfigurationError(
+      `Unknown protected resource "${resourceId}"`
+    );
+  }
+  return resource;
+}
+
+/** IDs of every registered resource. */
+export function getProtectedResourceIds(): string[] {
+  return [...registry.keys()];
+}
+
+/**
+ * Resolve `path` against the resource's base URL.  Absolute URLs
+ * (e.g. `@odata.nextLink`) are returned unchanged if they are on the
+ * resource's origin; any other host would receive the resource's
+ * token, so those throw a `ConfigurationError`.
+ */
+export function resolveResourceUrl(
+  resource: ProtectedResource,
+  path: string
+): string {
+  if (/^https?:\/\//i.test(path)) {
+    if (new URL(path).origin !== new URL(resource.baseUrl).origin) {
+      throw new ConfigurationError(
+        `Refusing to send a token for ${resource.baseUrl} to ` +
+          `${new URL(path).origin}`
+      );
+    }
+    return path;
+  }
+  return `${resource.baseUrl}${path.startsWith("/") ? "" : "/"}${path}`;
+}
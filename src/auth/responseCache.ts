@@ -0,0 +1,257 @@
+/**
+ * responseCache.ts
+ * ────────────────
+ * Optional persistent cache for GET responses made through
+ * `callApiWithClaimsRetry()`.  The task pane runtime is short-lived and
+ * reopens constantly; with the cache on, responses of calls that opt
+ * in with `cache: true` and carry an `ETag` are kept in IndexedDB per
+ * account and revalidated with `If-None-Match`, so an unchanged
+ * resource costs a 304 instead of a full download.
+ *
+ * Entries are purged on sign-out and when the active account changes,
+ * and are never served while a claims challenge for the resource is
+ * pending (the cached representation may be exactly what CAE revoked).
+ * Like the claims store, the back-end is pluggable: IndexedDB by
+ * default, memory in tests or runtimes without IndexedDB.  Failures of
+ * the store never fail the API call.
+ */
+
+import { recordDiagnostic } from "./diagnostics";
+import type { ApiRequestOptions } from "./apiRequest";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+export interface CachedResponse {
+  /** `<accountId>|<resourceId>|<authContext>|<url>|<headers>` */
+  key: string;
+  etag: string;
+  /** Response body as text. */
+  body: string;
+  contentType: string | null;
+  /** Epoch ms when the entry was stored or last revalidated. */
+  storedAt: number;
+}
+
+/** Async key/value store the response cache persists through. */
+export interface ResponseCacheStorage {
+  get(key: string): Promise<CachedResponse | undefined>;
+  put(entry: CachedResponse): Promise<void>;
+  /** Remove every entry whose key starts with `prefix` ("" = all). */
+  deleteByPrefix(prefix: string): Promise<void>;
+}
+
+export interface ResponseCacheOptions {
+  /** Turn the cache on or off (default off). */
+  enabled?: boolean;
+  /** Back-end (default: IndexedDB, or memory when unavailable). */
+  storage?: ResponseCacheStorage;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Back-ends                                                         */
+/* ------------------------------------------------------------------ */
+
+/** Database used by the default back-end. */
+export const DEFAULT_RESPONSE_CACHE_DB = "naa_cae_responses";
+
+const OBJECT_STORE = "responses";
+
+/** IndexedDB back-end; the database is opened on first use. */
+export function createIndexedDbCacheStorage(
+  dbName = DEFAULT_RESPONSE_CACHE_DB
+): ResponseCacheStorage {
+  let database: Promise<IDBDatabase> | null = null;
+
+  const open = () =>
+    (database ??= new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(dbName, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(OBJECT_STORE, { keyPath: "key" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        database = null;
+        reject(request.error);
+      };
+    }));
+
+  const run = async <T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest<T>
+  ): Promise<T> => {
+    const store = (await open())
+      .transaction(OBJECT_STORE, mode)
+      .objectStore(OBJECT_STORE);
+    return new Promise<T>((resolve, reject) => {
+      const request = operation(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    get: (key) =>
+      run<CachedResponse | undefined>("readonly", (store) => store.get(key)),
+    put: async (entry) => {
+      await run("readwrite", (store) => store.put(entry));
+    },
+    deleteByPrefix: async (prefix) => {
+      await run("readwrite", (store) =>
+        prefix
+          ? store.delete(IDBKeyRange.bound(prefix, `${prefix}\uffff`))
+          : store.clear()
+      );
+    },
+  };
+}
+
+/** Non-persistent back-end backed by a `Map`. */
+export function createMemoryCacheStorage(): ResponseCacheStorage {
+  const map = new Map<string, CachedResponse>();
+  return {
+    get: async (key) => map.get(key),
+    put: async (entry) => void map.set(entry.key, entry),
+    deleteByPrefix: async (prefix) => {
+      for (const key of map.keys()) {
+        if (key.startsWith(prefix)) map.delete(key);
+      }
+    },
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Configuration                                                     */
+/* ------------------------------------------------------------------ */
+
+let enabled = false;
+let storage: ResponseCacheStorage | undefined;
+
+/** Turn the cache on or off, or replace its back-end. */
+export function configureResponseCache(options: ResponseCacheOptions): void {
+  if (options.enabled !== undefined) enabled = options.enabled;
+  if (options.storage) storage = options.storage;
+}
+
+function getStorage(): ResponseCacheStorage {
+  storage ??=
+    typeof indexedDB !== "undefined"
+      ? createIndexedDbCacheStorage()
+      : createMemoryCacheStorage();
+  return storage;
+}
+
+/**
+ * Whether a call with `options` may use the cache: the cache is on,
+ * the call is a GET that opts in with `cache: true`, and its body is
+ * read as JSON or text.
+ */
+export function isCacheableRequest(options: ApiRequestOptions): boolean {
+  const method = options.method ?? "GET";
+  const responseType = options.responseType ?? "json";
+  return (
+    enabled &&
+    options.cache === true &&
+    method === "GET" &&
+    (responseType === "json" || responseType === "text")
+  );
+}
+
+/* ------------------------------------------------------------------ */
+/*  Entries                                                           */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Cache key of a request.  Request headers are part of it – e.g.
+ * `Prefer: outlook.body-content-type="text"` changes the response –
+ * and so is the authentication context, so a response read with an
+ * elevated token is never served to a baseline call.
+ */
+export function responseCacheKey(
+  accountId: string,
+  resourceId: string,
+  url: string,
+  headers: Record<string, string> = {},
+  authContext = ""
+): string {
+  const vary = Object.entries(headers)
+    .map(([name, value]) => `${name.toLowerCase()}=${value}`)
+    .sort()
+    .join("&");
+  return [accountId, resourceId, authContext, url, vary].join("|");
+}
+
+/** The stored entry for `key`, or `undefined` (also on store errors). */
+export async function readCachedResponse(
+  key: string
+): Promise<CachedResponse | undefined> {
+  try {
+    return await getStorage().get(key);
+  } catch (error: unknown) {
+    reportStoreError("read", error);
+    return undefined;
+  }
+}
+
+/**
+ * Store `response` under `key` if it carries an `ETag`.  Reads a
+ * clone, so the caller can still consume the body.
+ */
+export async function writeCachedResponse(
+  key: string,
+  response: Response
+): Promise<void> {
+  const etag = response.headers.get("ETag");
+  if (!etag || !response.ok) return;
+
+  try {
+    await getStorage().put({
+      key,
+      etag,
+      body: await response.clone().text(),
+      contentType: response.headers.get("Content-Type"),
+      storedAt: Date.now(),
+    });
+  } catch (error: unknown) {
+    reportStoreError("write", error);
+  }
+}
+
+/** Mark `entry` as just revalidated (after a 304). */
+export async function touchCachedResponse(
+  entry: CachedResponse
+): Promise<void> {
+  try {
+    await getStorage().put({ ...entry, storedAt: Date.now() });
+  } catch (error: unknown) {
+    reportStoreError("write", error);
+  }
+}
+
+/** Rebuild a `Response` from a stored entry. */
+export function toCachedResponse(entry: CachedResponse): Response {
+  const headers = new Headers({ ETag: entry.etag });
+  if (entry.contentType) headers.set("Content-Type", entry.contentType);
+  return new Response(entry.body, { status: 200, headers });
+}
+
+/**
+ * Drop the cached responses of one account, or of every account.
+ * Called on sign-out and when the active account changes.
+ */
+export async function purgeResponseCache(accountId?: string): Promise<void> {
+  try {
+    await getStorage().deleteByPrefix(
+      accountId === undefined ? "" : `${accountId}|`
+    );
+  } catch (error: unknown) {
+    reportStoreError("purge", error);
+  }
+}
+
+function reportStoreError(operation: string, error: unknown): void {
+  recordDiagnostic("error", `Response cache ${operation} failed`, {
+    error: error instanceof Error ? error.message : String(error),
+  });
+}
@@ -0,0 +1,174 @@
+/**
+ * retryPolicy.ts
+ * ──────────────
+ * Throttling and transient-failure retries for protected API calls.
+ *
+ * Outlook add-ins share Graph throttling limits with the user's
+ * mailbox, so 429 / 503 responses are expected under load.  The policy
+ * honours `Retry-After`, otherwise backs off exponentially with full
+ * jitter, and stops after a fixed attempt budget.  It wraps each
+ * individual `fetch`, so it composes with (and runs inside) the
+ * single CAE claims retry in `callApiWithClaimsRetry()`.
+ */
+
+/* ------------------------------------------------------------------ */
+/*  Policy                                                            */
+/* ------------------------------------------------------------------ */
+
+export interface RetryPolicy {
+  /** Total attempts including the first one (1 disables retries). */
+  maxAttempts: number;
+  /** Base delay for exponential backoff. */
+  baseDelayMs: number;
+  /** Upper bound for a single backoff delay. */
+  maxDelayMs: number;
+  /** Longest `Retry-After` we are willing to wait; longer → give up. */
+  maxRetryAfterMs: number;
+  /** Statuses that are always safe to retry (request not processed). */
+  throttleStatuses: number[];
+  /** Transient server statuses, retried for idempotent methods only. */
+  transientStatuses: number[];
+  /** Retry network failures (`fetch` rejections) – idempotent only. */
+  retryNetworkErrors: boolean;
+  /** Also retry transient failures for POST / PATCH. */
+  retryNonIdempotent: boolean;
+}
+
+let defaultPolicy: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  maxRetryAfterMs: 60_000,
+  throttleStatuses: [429],
+  transientStatuses: [500, 502, 503, 504],
+  retryNetworkErrors: true,
+  retryNonIdempotent: false,
+};
+
+/** Override parts of the default policy for every subsequent call. */
+export function configureRetryPolicy(overrides: Partial<RetryPolicy>): void {
+  defaultPolicy = { ...defaultPolicy, ...overrides };
+}
+
+/** The current default policy merged with per-call `overrides`. */
+export function resolveRetryPolicy(
+  overrides?: Partial<RetryPolicy> | false
+): RetryPolicy {
+  if (overrides === false) {
+    return { ...defaultPolicy, maxAttempts: 1 };
+  }
+  return { ...defaultPolicy, ...overrides };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Delay helpers                                                     */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Parse a `Retry-After` header (delta-seconds or HTTP-date) into
+ * milliseconds.  Returns `undefined` when absent or unparsable.
+ */
+export function parseRetryAfter(
+  value: string | null,
+  now = Date.now()
+): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value.trim());
+  if (Number.isFinite(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/** Exponential backoff with full jitter for the given attempt (1-based). */
+export function computeBackoffDelay(
+  attempt: number,
+  policy: RetryPolicy
+): number {
+  const ceiling = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** (attempt - 1)
+  );
+  return Math.round(Math.random() * ceiling);
+}
+
+/**
+ * Resolve after `ms`, or reject with the signal's reason as soon as
+ * `signal` aborts.
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  fetch with retries                                                */
+/* ------------------------------------------------------------------ */
+
+const IDEMPOTENT_METHODS = ["GET", "HEAD", "OPTIONS", "PUT", "DELETE"];
+
+/**
+ * `fetch` `url`, retrying throttled and transient failures according
+ * to `policy`.  `makeInit` is called for every attempt so request
+ * bodies are re-created.  The last response is returned once the
+ * budget is spent; the last network error is re-thrown.
+ */
+export async function fetchWithRetry(
+  url: string,
+  makeInit: () => RequestInit,
+  policy: RetryPolicy,
+  signal?: AbortSignal
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    const init = makeInit();
+    const method = (init.method ?? "GET").toUpperCase();
+    const idempotent =
+      policy.retryNonIdempotent || IDEMPOTENT_METHODS.includes(method);
+    const hasBudget = attempt < policy.maxAttempts;
+
+    let response: Response;
+    try {
+      response = await fetch(url, { ...init, signal });
+    } catch (error: unknown) {
+      const retryable = policy.retryNetworkErrors && idempotent && hasBudget;
+      if (signal?.aborted || !retryable) {
+        throw error;
+      }
+      await sleep(computeBackoffDelay(attempt, policy), signal);
+      continue;
+    }
+
+    const throttled = policy.throttleStatuses.includes(response.status);
+    const transient =
+      idempotent && policy.transientStatuses.includes(response.status);
+
+    if (!hasBudget || (!throttled && !transient)) {
+      return response;
+    }
+
+    const retryAfter = parseRetryAfter(response.headers.get("Retry-After"));
+    if (retryAfter !== undefined && retryAfter > policy.maxRetryAfterMs) {
+      return response;
+    }
+
+    await sleep(retryAfter ?? computeBackoffDelay(attempt, policy), signal);
+  }
+}
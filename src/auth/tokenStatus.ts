@@ -0,0 +1,146 @@
+/**
+ * tokenStatus.ts
+ * ──────────────
+ * Access-token introspection.  Decodes the JWT claims the add-in cares
+ * about (`exp`, `xms_cc`, `acrs`, `scp`, `tid`) and keeps a status per
+ * acquired token – expiry, next background renewal and whether it is
+ * a long-lived CAE token – that the UI can observe.
+ *
+ * Access tokens belong to their API, not to the client: the decode is
+ * informational only (never used to authorise anything) and returns
+ * `null` for opaque or encrypted tokens such as personal-account
+ * Graph tokens.
+ */
+
+/* ------------------------------------------------------------------ */
+/*  JWT claims                                                        */
+/* ------------------------------------------------------------------ */
+
+export interface AccessTokenClaims {
+  /** Expiry (seconds since the epoch). */
+  exp?: number;
+  /** Issued-at (seconds since the epoch). */
+  iat?: number;
+  /** Tenant ID. */
+  tid?: string;
+  /** Delegated scopes (`scp`, split on spaces). */
+  scp: string[];
+  /** Client capabilities the token was issued for (`xms_cc`). */
+  xmsCc: string[];
+  /** Authentication context class references satisfied (`acrs`). */
+  acrs: string[];
+}
+
+function decodeBase64Url(segment: string): string {
+  const base64 = segment.replace(/-/g, "+").replace(/_/g, "/");
+  const padded = base64 + "=".repeat((4 - (base64.length % 4)) % 4);
+  const bytes = Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+}
+
+function toStringArray(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String);
+  if (typeof value === "string" && value) return [value];
+  return [];
+}
+
+/**
+ * Decode the claims of a JWT access token.  Returns `null` when the
+ * token is not a readable JWT.
+ */
+export function decodeAccessToken(token: string): AccessTokenClaims | null {
+  const parts = token.split(".");
+  if (parts.length !== 3) return null;
+
+  let payload: Record<string, unknown>;
+  try {
+    payload = JSON.parse(decodeBase64Url(parts[1])) as Record<string, unknown>;
+  } catch {
+    return null;
+  }
+  if (typeof payload !== "object" || payload === null) return null;
+
+  return {
+    exp: typeof payload.exp === "number" ? payload.exp : undefined,
+    iat: typeof payload.iat === "number" ? payload.iat : undefined,
+    tid: typeof payload.tid === "string" ? payload.tid : undefined,
+    scp:
+      typeof payload.scp === "string" ? payload.scp.split(" ") : [],
+    xmsCc: toStringArray(payload.xms_cc),
+    acrs: toStringArray(payload.acrs),
+  };
+}
+
+/**
+ * True for tokens issued to a CAE-capable client (`xms_cc` contains
+ * `cp1`).  Entra ID gives these a long lifetime (up to 28 h) and
+ * revokes them through claims challenges instead.
+ */
+export function isCaeToken(claims: AccessTokenClaims | null): boolean {
+  return claims?.xmsCc.some((cc) => cc.toLowerCase() === "cp1") ?? false;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Token status                                                      */
+/* ------------------------------------------------------------------ */
+
+export interface TokenStatus {
+  /** `homeAccountId` of the token's account. */
+  accountId: string;
+  /** Resource key the token was acquired for (e.g. "graph"). */
+  resource: string;
+  scopes: string[];
+  expiresOn: Date | null;
+  /** When the background refresh is due (`null` when not scheduled). */
+  refreshAt: Date | null;
+  /** Long-lived CAE token (see {@link isCaeToken}). */
+  caeCapable: boolean;
+  /** Decoded claims, or `null` for opaque tokens. */
+  claims: AccessTokenClaims | null;
+  /** Last background refresh failure, cleared on the next success. */
+  refreshError?: string;
+}
+
+const statuses = new Map<string, TokenStatus>();
+const listeners = new Set<(status: TokenStatus) => void>();
+
+function statusKey(accountId: string, resource: string): string {
+  return `${accountId}|${resource}`;
+}
+
+/** Record (or replace) the status of an account's token for a resource. */
+export function setTokenStatus(status: TokenStatus): void {
+  statuses.set(statusKey(status.accountId, status.resource), status);
+  for (const listener of listeners) {
+    listener(status);
+  }
+}
+
+/** Latest status of `accountId`'s token for `resource`, if any. */
+export function getTokenStatus(
+  accountId: string,
+  resource = "graph"
+): TokenStatus | null {
+  return statuses.get(statusKey(accountId, resource)) ?? null;
+}
+
+/** Drop the statuses of one account, or of every account. */
+export function clearTokenStatuses(accountId?: string): void {
+  for (const [key, status] of statuses) {
+    if (accountId === undefined || status.accountId === accountId) {
+      statuses.delete(key);
+    }
+  }
+}
+
+/**
+ * Subscribe to token status updates.
+ *
+ * @returns An unsubscribe function.
+ */
+export function onTokenStatusChange(
+  listener: (status: TokenStatus) => void
+): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
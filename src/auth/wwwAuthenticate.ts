@@ -0,0 +1,217 @@
+/**
+ * wwwAuthenticate.ts
+ * ──────────────────
+ * RFC 7235 parser for `WWW-Authenticate` headers.
+ *
+ * A single header may carry several challenges (e.g. `Bearer` and
+ * `PoP`), each with comma-separated `name=value` parameters whose
+ * values are tokens or quoted strings (with `\` escapes).  The parser
+ * returns every challenge as a structured object, with the `claims`
+ * parameter already decoded from base64 / base64url.
+ *
+ * References:
+ *  - https://www.rfc-editor.org/rfc/rfc7235#section-4.1
+ *  - https://learn.microsoft.com/entra/identity-platform/claims-challenge
+ */
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+export interface AuthChallenge {
+  /** Auth scheme as sent by the server, e.g. "Bearer" or "PoP". */
+  scheme: string;
+  /** All parameters, keyed by lower-cased name, values unescaped. */
+  params: Record<string, string>;
+  /** token68 credential form (schemes without parameters). */
+  token68?: string;
+  realm?: string;
+  authorizationUri?: string;
+  error?: string;
+  errorDescription?: string;
+  /** Decoded claims JSON string. */
+  claims?: string;
+}
+
+/**
+ * How a challenge should be treated:
+ *  - `"claims"`             – CAE / Conditional Access claims challenge;
+ *                             retry with the claims attached.
+ *  - `"invalid_token"`      – token rejected (expired, revoked, malformed).
+ *  - `"insufficient_scope"` – token lacks the required scopes.
+ *  - `"other"`              – any other challenge.
+ */
+export type AuthChallengeKind =
+  | "claims"
+  | "invalid_token"
+  | "insufficient_scope"
+  | "other";
+
+/* ------------------------------------------------------------------ */
+/*  Parser                                                            */
+/* ------------------------------------------------------------------ */
+
+const TCHAR = /[!#$%&'*+\-.^_`|~0-9A-Za-z]/;
+
+/**
+ * Parse a `WWW-Authenticate` header value into its challenges.
+ * Malformed trailing input is ignored rather than thrown.
+ */
+export function parseWwwAuthenticate(header: string): AuthChallenge[] {
+  const challenges: AuthChallenge[] = [];
+  let pos = 0;
+
+  const skipSpaces = () => {
+    while (pos < header.length && /[ \t]/.test(header[pos])) pos++;
+  };
+
+  const skipSeparators = () => {
+    while (pos < header.length && /[ \t,]/.test(header[pos])) pos++;
+  };
+
+  const readToken = (): string => {
+    const start = pos;
+    while (pos < header.length && TCHAR.test(header[pos])) pos++;
+    return header.slice(start, pos);
+  };
+
+  const readQuoted = (): string => {
+    let value = "";
+    pos++; // opening quote
+    while (pos < header.length && header[pos] !== '"') {
+      if (header[pos] === "\\" && pos + 1 < header.length) pos++;
+      value += header[pos++];
+    }
+    pos++; // closing quote
+    return value;
+  };
+
+  const readBareValue = (): string => {
+    // Lenient: accept base64 padding and other non-tchar characters
+    const start = pos;
+    while (pos < header.length && !/[ \t,]/.test(header[pos])) pos++;
+    return header.slice(start, pos);
+  };
+
+  /** True if a `name =` (auth-param) starts at the current position. */
+  const atParam = (): boolean => {
+    const save = pos;
+    const name = readToken();
+    skipSpaces();
+    const isParam =
+      name.length > 0 &&
+      header[pos] === "=" &&
+      !/^=[ \t]*(=|,|$)/.test(header.slice(pos));
+    pos = save;
+    return isParam;
+  };
+
+  while (pos < header.length) {
+    skipSeparators();
+    if (pos >= header.length) break;
+
+    const scheme = readToken();
+    if (!scheme) break; // malformed
+
+    const challenge: AuthChallenge = { scheme, params: {} };
+    challenges.push(challenge);
+    skipSpaces();
+
+    if (pos >= header.length || header[pos] === ",") {
+      continue; // scheme without parameters
+    }
+
+    if (!atParam()) {
+      // token68 form, e.g. `Negotiate abc==`
+      challenge.token68 = readBareValue();
+      continue;
+    }
+
+    // auth-param list
+    for (;;) {
+      const name = readToken().toLowerCase();
+      skipSpaces();
+      pos++; // "="
+      skipSpaces();
+      challenge.params[name] =
+        header[pos] === '"' ? readQuoted() : readBareValue();
+
+      skipSpaces();
+      if (header[pos] !== ",") break;
+
+      // Next item is either another param or the next challenge
+      const save = pos;
+      skipSeparators();
+      if (!atParam()) {
+        pos = save;
+        break;
+      }
+    }
+
+    const { params } = challenge;
+    challenge.realm = params.realm;
+    challenge.authorizationUri = params.authorization_uri;
+    challenge.error = params.error;
+    challenge.errorDescription = params.error_description;
+    if (params.claims) {
+      challenge.claims = decodeClaimsValue(params.claims);
+    }
+  }
+
+  return challenges;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Classification                                                    */
+/* ------------------------------------------------------------------ */
+
+/** Classify a single challenge (see {@link AuthChallengeKind}). */
+export function classifyAuthChallenge(
+  challenge: AuthChallenge
+): AuthChallengeKind {
+  const error = challenge.error?.toLowerCase();
+
+  if (challenge.claims && (!error || error === "insufficient_claims")) {
+    return "claims";
+  }
+  if (error === "invalid_token") return "invalid_token";
+  if (error === "insufficient_scope") return "insufficient_scope";
+  return "other";
+}
+
+/**
+ * Return the first genuine CAE claims challenge in `challenges`,
+ * if any.
+ */
+export function findClaimsChallenge(
+  challenges: AuthChallenge[]
+): AuthChallenge | undefined {
+  return challenges.find((c) => classifyAuthChallenge(c) === "claims");
+}
+
+/* ------------------------------------------------------------------ */
+/*  Claims decoding                                                   */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Decode a `claims` parameter.  Accepts base64 and base64url (with or
+ * without padding); values that are already JSON are returned as-is.
+ */
+export function decodeClaimsValue(value: string): string {
+  const trimmed = value.trim();
+  if (trimmed.startsWith("{")) {
+    return trimmed;
+  }
+
+  try {
+    let base64 = trimmed.replace(/-/g, "+").replace(/_/g, "/");
+    base64 += "=".repeat((4 - (base64.length % 4)) % 4);
+
+    const binary = atob(base64);
+    const bytes = Uint8Array.from(binary, (ch) => ch.charCodeAt(0));
+    return new TextDecoder().decode(bytes);
+  } catch {
+    // Not base64 – hand the raw value to MSAL
+    return trimmed;
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { InteractionRequiredAuthError } from "@azure/msal-browser";
+
+import {
+  configureInteractiveAuth,
+  getStoredClaimsChallenge,
+  validateAppConfig,
+  applyAppConfig,
+} from "@/auth";
+import { flagAndCategorize, FOLLOW_UP_CATEGORY } from "@/commands/mailCommands";
+import {
+  installFakeMsal,
+  resetAuthState,
+  scriptFetch,
+  jsonResponse,
+  claimsChallengeResponse,
+} from "@/test/harness";
+
+const clientId = "11111111-1111-1111-1111-111111111111";
+
+interface Shown {
+  key: string;
+  details: Office.NotificationMessageDetails;
+}
+
+function stubCommandHost(mailboxMinor = 10) {
+  const shown: Shown[] = [];
+  vi.stubGlobal("Office", {
+    context: {
+      mailbox: {
+        item: {
+          itemId: "AAMk-1",
+          notificationMessages: {
+            replaceAsync: (
+              key: string,
+              details: Office.NotificationMessageDetails,
+              callback: () => void
+            ) => {
+              shown.push({ key, details });
+              callback();
+            },
+          },
+        },
+        diagnostics: { hostName: "OutlookIOS" },
+      },
+      requirements: {
+        isSetSupported: (_name: string, version: string) =>
+          Number(version.split(".")[1]) <= mailboxMinor,
+      },
+    },
+    MailboxEnums: {
+      ItemNotificationMessageType: {
+        ProgressIndicator: "progressIndicator",
+        InformationalMessage: "informationalMessage",
+        ErrorMessage: "errorMessage",
+        InsightMessage: "insightMessage",
+      },
+      ActionType: { ShowTaskPane: "showTaskPane" },
+    },
+  });
+  return shown;
+}
+
+function commandEvent() {
+  return { completed: vi.fn() } as unknown as Office.AddinCommands.Event & {
+    completed: ReturnType<typeof vi.fn>;
+  };
+}
+
+beforeEach(() => {
+  resetAuthState();
+  vi.stubEnv("VITE_CLIENT_ID", clientId);
+  configureInteractiveAuth({ enabled: false });
+});
+
+afterEach(() => {
+  configureInteractiveAuth({ enabled: true });
+  vi.unstubAllEnvs();
+  applyAppConfig(validateAppConfig({ clientId }));
+});
+
+describe("flagAndCategorize", () => {
+  it("patches the message and reports success", async () => {
+    installFakeMsal();
+    const shown = stubCommandHost();
+    const requests = scriptFetch(
+      jsonResponse({ categories: ["Red"] }),
+      new Response(null, { status: 200 })
+    );
+    const event = commandEvent();
+
+    await flagAndCategorize(event);
+
+    expect(requests[1].method).toBe("PATCH");
+    expect(JSON.parse(requests[1].body as string)).toEqual({
+      flag: { flagStatus: "flagged" },
+      categories: ["Red", FOLLOW_UP_CATEGORY],
+    });
+    expect(shown.map((s) => s.details.type)).toEqual([
+      "progressIndicator",
+      "informationalMessage",
+    ]);
+    expect(event.completed).toHaveBeenCalledOnce();
+  });
+
+  it("sends the user to the task pane when a challenge needs interaction", async () => {
+    const msal = installFakeMsal();
+    const claims = '{"access_token":{"nbf":{"essential":true}}}';
+    msal.onSilent(
+      new InteractionRequiredAuthError(
+        "interaction_required",
+        "",
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        claims
+      )
+    );
+    const shown = stubCommandHost();
+    scriptFetch();
+    const event = commandEvent();
+
+    await flagAndCategorize(event);
+
+    const last = shown.at(-1)!.details;
+    expect(last.type).toBe("insightMessage");
+    expect(last.actions?.[0].commandId).toBe("TaskPaneAction");
+    expect(msal.popupRequests).toHaveLength(0);
+    expect(getStoredClaimsChallenge("graph")).toBe(claims);
+    expect(event.completed).toHaveBeenCalledOnce();
+  });
+
+  it("falls back to an error message on older hosts", async () => {
+    installFakeMsal();
+    const shown = stubCommandHost(8);
+    const event = commandEvent();
+
+    // The silent retry with the claims still gets a challenged token
+    scriptFetch(
+      claimsChallengeResponse({ access_token: {} }),
+      claimsChallengeResponse({ access_token: {} })
+    );
+    await flagAndCategorize(event);
+
+    const last = shown.at(-1)!.details;
+    expect(last.type).toBe("errorMessage");
+    expect(last.message).toMatch(/task pane/);
+  });
+});
@@ -1,9 +1,17 @@
 /* eslint-disable no-console */
 
+import { configureInteractiveAuth } from "@/auth";
+import { flagAndCategorize } from "./mailCommands";
+
+// The commands runtime has no UI – sign-in prompts are left to the
+// task pane (see mailCommands.ts)
+configureInteractiveAuth({ enabled: false });
+
 // Ribbon / function commands (lightweight – no Vue needed)
 Office.onReady(() => {
   // Register command handlers
   Office.actions.associate("ShowTaskpane", showTaskpane);
+  Office.actions.associate("FlagAndCategorize", flagAndCategorize);
 });
 
 function showTaskpane(_event: Office.AddinCommands.Event) {
@@ -0,0 +1,109 @@
+/**
+ * mailCommands.ts
+ * ───────────────
+ * Headless ribbon commands: they run in the commands runtime without
+ * opening the task pane, call Graph through the same NAA / CAE auth
+ * service, and report progress and results in the notification bar.
+ *
+ * The commands runtime cannot show sign-in UI, so a command that needs
+ * the user (interaction, consent, an unresolved claims challenge) asks
+ * them to finish in the task pane instead of failing silently.
+ */
+
+import {
+  callGraphWithClaimsRetry,
+  featureScopes,
+  ensureAppConfig,
+  recordDiagnostic,
+  toAuthServiceError,
+} from "@/auth";
+import {
+  getCurrentItemRestId,
+  getCurrentMailbox,
+  mailFeature,
+  messagePath,
+} from "@/mail/mailItemService";
+import {
+  showProgress,
+  showSuccess,
+  showError,
+  showOpenTaskPane,
+  needsTaskPane,
+} from "./notifications";
+
+/** Category added by "Flag and categorize". */
+export const FOLLOW_UP_CATEGORY = "Follow up";
+
+/* ------------------------------------------------------------------ */
+/*  Command runner                                                    */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Run a command body with progress / result notifications under
+ * `key`, and always signal completion to Outlook.
+ *
+ * @param work  Does the work and returns the success message.
+ */
+export async function runCommand(
+  event: Office.AddinCommands.Event,
+  key: string,
+  progressMessage: string,
+  work: () => Promise<string>
+): Promise<void> {
+  try {
+    await showProgress(key, progressMessage);
+    await ensureAppConfig();
+    await showSuccess(key, await work());
+  } catch (e: unknown) {
+    const error = toAuthServiceError(e);
+    recordDiagnostic("error", `Command ${key} failed`, {
+      code: error.code,
+      error: error.message,
+    });
+
+    if (needsTaskPane(error)) {
+      await showOpenTaskPane(key, "Sign-in is needed to finish this action.");
+    } else {
+      await showError(key, error.message);
+    }
+  } finally {
+    event.completed();
+  }
+}
+
+function requireItemRestId(): string {
+  const restId = getCurrentItemRestId();
+  if (!restId) {
+    throw new Error("Select a message first.");
+  }
+  return restId;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Commands                                                          */
+/* ------------------------------------------------------------------ */
+
+/** Flag the selected message and add the {@link FOLLOW_UP_CATEGORY}. */
+export function flagAndCategorize(event: Office.AddinCommands.Event) {
+  return runCommand(event, "FlagAndCategorize", "Flagging…", async () => {
+    const mailbox = await getCurrentMailbox();
+    const path = messagePath(requireItemRestId(), mailbox);
+    const scopes = featureScopes[mailFeature(mailbox, true)];
+    const { categories = [] } = await callGraphWithClaimsRetry<{
+      categories?: string[];
+    }>(`${path}?$select=categories`, scopes);
+
+    await callGraphWithClaimsRetry(path, scopes, {
+      method: "PATCH",
+      json: {
+        flag: { flagStatus: "flagged" },
+        categories: categories.includes(FOLLOW_UP_CATEGORY)
+          ? categories
+          : [...categories, FOLLOW_UP_CATEGORY],
+      },
+      responseType: "none",
+    });
+
+    return `Flagged and categorized as "${FOLLOW_UP_CATEGORY}".`;
+  });
+}
@@ -0,0 +1,109 @@
+/**
+ * notifications.ts
+ * ────────────────
+ * Progress, result and "open the task pane" messages for headless
+ * commands, shown in the item's notification bar
+ * (`item.notificationMessages`).  Each command uses its own key, so a
+ * new message replaces the previous one for that command.
+ */
+
+import {
+  AdminConsentRequiredError,
+  ClaimsChallengeUnresolvedError,
+  ConsentRequiredError,
+  InteractionRequiredError,
+  type AuthServiceError,
+} from "@/auth";
+
+/** Notification bar messages are cut off after 150 characters. */
+const MAX_MESSAGE_LENGTH = 150;
+
+/** Icon resource for informational messages. */
+const ICON_ID = "Icon.16x16";
+
+/** Action ID of the task pane in `manifest.json`. */
+export const TASK_PANE_ACTION_ID = "TaskPaneAction";
+
+function truncate(message: string): string {
+  return message.length > MAX_MESSAGE_LENGTH
+    ? `${message.slice(0, MAX_MESSAGE_LENGTH - 1)}…`
+    : message;
+}
+
+function replace(
+  key: string,
+  details: Office.NotificationMessageDetails
+): Promise<void> {
+  return new Promise((resolve) => {
+    const item = Office.context.mailbox?.item;
+    if (!item) return resolve();
+
+    // A notification that fails to show must not fail the command
+    item.notificationMessages.replaceAsync(
+      key,
+      { ...details, message: truncate(details.message) },
+      () => resolve()
+    );
+  });
+}
+
+export function showProgress(key: string, message: string): Promise<void> {
+  return replace(key, {
+    type: Office.MailboxEnums.ItemNotificationMessageType.ProgressIndicator,
+    message,
+  });
+}
+
+export function showSuccess(key: string, message: string): Promise<void> {
+  return replace(key, {
+    type: Office.MailboxEnums.ItemNotificationMessageType.InformationalMessage,
+    message,
+    icon: ICON_ID,
+    persistent: false,
+  });
+}
+
+export function showError(key: string, message: string): Promise<void> {
+  return replace(key, {
+    type: Office.MailboxEnums.ItemNotificationMessageType.ErrorMessage,
+    message,
+  });
+}
+
+/**
+ * True when the failure can be fixed by signing in (or consenting) in
+ * the task pane.  Admin consent cannot – the user can't grant it.
+ */
+export function needsTaskPane(error: AuthServiceError): boolean {
+  if (error instanceof AdminConsentRequiredError) return false;
+  return (
+    error instanceof InteractionRequiredError ||
+    error instanceof ConsentRequiredError ||
+    error instanceof ClaimsChallengeUnresolvedError
+  );
+}
+
+/**
+ * Ask the user to finish in the task pane.  Mailbox 1.10 hosts get an
+ * insight message with an "Open" action; older ones an error message
+ * pointing at the ribbon button.
+ */
+export function showOpenTaskPane(key: string, message: string): Promise<void> {
+  if (!Office.context.requirements.isSetSupported("Mailbox", "1.10")) {
+    return showError(key, `${message} Open the NAA CAE task pane.`);
+  }
+
+  return replace(key, {
+    type: Office.MailboxEnums.ItemNotificationMessageType.InsightMessage,
+    message,
+    icon: ICON_ID,
+    actions: [
+      {
+        actionType: Office.MailboxEnums.ActionType.ShowTaskPane,
+        actionText: "Open",
+        commandId: TASK_PANE_ACTION_ID,
+        contextData: JSON.stringify({ reason: "sign_in", command: key }),
+      },
+    ],
+  });
+}
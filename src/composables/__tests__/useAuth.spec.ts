@@ -0,0 +1,109 @@
+import { describe, it, expect, vi } from "vitest";
+import { defineComponent, h } from "vue";
+import { mount, flushPromises } from "@vue/test-utils";
+import { BrowserAuthError } from "@azure/msal-browser";
+
+/**
+ * `useAuth` keeps its state in module-level refs, so every test loads
+ * a fresh module graph (composable, auth service and harness) and
+ * mounts a throwaway component so `onMounted` hooks run.
+ */
+async function setup(
+  arrange: (harness: typeof import("@/test/harness")) => void
+) {
+  vi.resetModules();
+  const harness = await import("@/test/harness");
+  const authModule = await import("@/auth");
+  const { useAuth } = await import("@/composables/useAuth");
+
+  harness.resetAuthState();
+  arrange(harness);
+
+  let auth!: ReturnType<typeof useAuth>;
+  mount(
+    defineComponent({
+      setup() {
+        auth = useAuth();
+        return () => h("div");
+      },
+    })
+  );
+  await flushPromises();
+
+  return { auth, harness, authModule };
+}
+
+describe("useAuth", () => {
+  it("picks up the cached account on mount", async () => {
+    const { auth, harness } = await setup((tools) => tools.installFakeMsal());
+
+    expect(auth.isAuthenticated.value).toBe(true);
+    expect(auth.account.value?.username).toBe(harness.testAccount.username);
+  });
+
+  it("tracks loading and account state through login / logout", async () => {
+    const { auth } = await setup((tools) => tools.installFakeMsal([]));
+    expect(auth.isAuthenticated.value).toBe(false);
+
+    const pending = auth.login();
+    expect(auth.isLoading.value).toBe(true);
+    await pending;
+
+    expect(auth.isLoading.value).toBe(false);
+    expect(auth.isAuthenticated.value).toBe(true);
+
+    await auth.logout();
+    expect(auth.isAuthenticated.value).toBe(false);
+    expect(auth.account.value).toBeNull();
+  });
+
+  it("exposes a typed error when sign-in is cancelled", async () => {
+    const { auth, authModule } = await setup((tools) =>
+      tools
+        .installFakeMsal([])
+        .onPopup(new BrowserAuthError("user_cancelled"))
+    );
+
+    await auth.login();
+
+    expect(auth.error.value).toBeInstanceOf(authModule.UserCancelledError);
+    expect(auth.isAuthenticated.value).toBe(false);
+  });
+
+  it("returns null and a typed error when a claims challenge persists", async () => {
+    const claims = { access_token: { nbf: { essential: true } } };
+    const { auth, authModule } = await setup((tools) => {
+      tools.installFakeMsal();
+      tools.scriptFetch(
+        tools.claimsChallengeResponse(claims),
+        tools.claimsChallengeResponse(claims)
+      );
+    });
+
+    const data = await auth.callGraph("/me");
+
+    expect(data).toBeNull();
+    expect(auth.error.value).toBeInstanceOf(
+      authModule.ClaimsChallengeUnresolvedError
+    );
+    expect(auth.isLoading.value).toBe(false);
+  });
+
+  it("clears the previous error on the next successful call", async () => {
+    const { auth } = await setup((tools) => {
+      tools.installFakeMsal();
+      tools.scriptFetch(
+        new Response("", { status: 500 }),
+        tools.jsonResponse({ displayName: "Adele" })
+      );
+    });
+
+    await auth.callGraph("/me", undefined, { retry: false });
+    expect(auth.error.value?.code).toBe("api_error");
+
+    const data = await auth.callGraph<{ displayName: string }>("/me");
+
+    expect(data?.displayName).toBe("Adele");
+    expect(auth.error.value).toBeNull();
+  });
+});
@@ -0,0 +1,169 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { defineComponent, h, nextTick, ref, type Ref } from "vue";
+import { mount, flushPromises } from "@vue/test-utils";
+
+import { useGraph, invalidateGraphCache } from "@/composables/useGraph";
+import {
+  installFakeMsal,
+  resetAuthState,
+  scriptFetch,
+  jsonResponse,
+} from "@/test/harness";
+
+beforeEach(() => {
+  resetAuthState();
+  installFakeMsal();
+  invalidateGraphCache();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/** Mount a component running `useGraph(endpoint, options)`. */
+function mountQuery<T>(
+  endpoint: Parameters<typeof useGraph>[0],
+  options: Parameters<typeof useGraph>[1] = {}
+) {
+  let query!: ReturnType<typeof useGraph<T>>;
+  const wrapper = mount(
+    defineComponent({
+      setup() {
+        query = useGraph<T>(endpoint, options);
+        return () => h("div");
+      },
+    })
+  );
+  return { query, wrapper };
+}
+
+describe("useGraph", () => {
+  it("keeps data, loading and error separate per query", async () => {
+    scriptFetch(
+      jsonResponse({ displayName: "Adele" }),
+      jsonResponse({ error: { code: "ErrorItemNotFound" } }, 404)
+    );
+
+    const { query: me } = mountQuery<{ displayName: string }>("/me");
+    const { query: missing } = mountQuery("/me/messages/gone");
+    expect(me.isLoading.value).toBe(true);
+
+    await flushPromises();
+
+    expect(me.data.value?.displayName).toBe("Adele");
+    expect(me.error.value).toBeNull();
+    expect(missing.data.value).toBeNull();
+    expect(missing.error.value?.code).toBeTruthy();
+    expect(me.isLoading.value).toBe(false);
+    expect(missing.isLoading.value).toBe(false);
+  });
+
+  it("serves fresh cached data without a request", async () => {
+    const requests = scriptFetch(jsonResponse({ id: 1 }));
+    mountQuery("/me").wrapper.unmount();
+    await flushPromises();
+
+    const { query } = mountQuery("/me");
+
+    expect(query.data.value).toEqual({ id: 1 });
+    expect(query.isFetching.value).toBe(false);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("keeps requests with different options apart", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ id: 1 }),
+      new Response("photo"),
+      jsonResponse({ "@odata.count": 3 })
+    );
+
+    const { query: json } = mountQuery("/me/photo/$value");
+    const { query: blob } = mountQuery("/me/photo/$value", {
+      responseType: "blob",
+    });
+    const { query: counted } = mountQuery("/me/photo/$value", {
+      headers: { ConsistencyLevel: "eventual" },
+    });
+    await flushPromises();
+
+    expect(requests).toHaveLength(3);
+    expect(json.data.value).toEqual({ id: 1 });
+    expect(blob.data.value).toBeInstanceOf(Blob);
+    expect(counted.data.value).toEqual({ "@odata.count": 3 });
+
+    // Same options → served from the cache
+    const { query: again } = mountQuery("/me/photo/$value", {
+      responseType: "blob",
+    });
+    expect(again.data.value).toBe(blob.data.value);
+    expect(requests).toHaveLength(3);
+  });
+
+  it("shows stale data while it revalidates", async () => {
+    scriptFetch(jsonResponse({ id: 1 }), jsonResponse({ id: 2 }));
+    mountQuery("/me");
+    await flushPromises();
+
+    const { query } = mountQuery("/me", { staleTimeMs: 0 });
+
+    expect(query.data.value).toEqual({ id: 1 });
+    expect(query.isLoading.value).toBe(false);
+    expect(query.isFetching.value).toBe(true);
+    await flushPromises();
+    expect(query.data.value).toEqual({ id: 2 });
+  });
+
+  it("refetches when a reactive endpoint changes", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ id: "a" }),
+      jsonResponse({ id: "b" })
+    );
+    const id: Ref<string | null> = ref("a");
+    const { query } = mountQuery(() => id.value && `/me/messages/${id.value}`);
+    await flushPromises();
+
+    id.value = "b";
+    await nextTick();
+    expect(query.data.value).toBeNull();
+    await flushPromises();
+
+    expect(query.data.value).toEqual({ id: "b" });
+    expect(requests.map((r) => r.url)).toEqual([
+      expect.stringMatching(/\/me\/messages\/a$/),
+      expect.stringMatching(/\/me\/messages\/b$/),
+    ]);
+  });
+
+  it("forces a request on refetch", async () => {
+    const requests = scriptFetch(
+      jsonResponse({ id: 1 }),
+      jsonResponse({ id: 2 })
+    );
+    const { query } = mountQuery("/me");
+    await flushPromises();
+
+    await query.refetch();
+
+    expect(query.data.value).toEqual({ id: 2 });
+    expect(requests).toHaveLength(2);
+  });
+
+  it("aborts the request in flight on unmount", async () => {
+    let signal: AbortSignal | undefined;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn((_url: string, init: RequestInit) => {
+        signal = init.signal ?? undefined;
+        return new Promise<Response>(() => {});
+      })
+    );
+
+    const { query, wrapper } = mountQuery("/me");
+    await flushPromises();
+    wrapper.unmount();
+
+    expect(signal?.aborted).toBe(true);
+    expect(query.isLoading.value).toBe(false);
+    expect(query.error.value).toBeNull();
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+import { defineComponent, h } from "vue";
+import { mount, flushPromises } from "@vue/test-utils";
+
+import { useMailItem } from "@/composables/useMailItem";
+import { installFakeMsal, resetAuthState } from "@/test/harness";
+
+/** Office stub whose selected item the test can change. */
+function stubMailbox(itemId: string | null) {
+  const mailbox = {
+    item: itemId ? { itemId } : null,
+    diagnostics: { hostName: "OutlookIOS" },
+    addHandlerAsync: vi.fn(),
+    removeHandlerAsync: vi.fn(),
+  };
+  vi.stubGlobal("Office", {
+    context: { mailbox },
+    EventType: { ItemChanged: "olkItemSelectedChanged" },
+  });
+
+  /** Select `id` (or nothing) and fire ItemChanged. */
+  const select = (id: string | null) => {
+    mailbox.item = id ? { itemId: id } : null;
+    const dispatch = mailbox.addHandlerAsync.mock.calls[0][1] as () => void;
+    dispatch();
+  };
+  return { select };
+}
+
+function mountMailItem() {
+  let state!: ReturnType<typeof useMailItem>;
+  mount(
+    defineComponent({
+      setup() {
+        state = useMailItem();
+        return () => h("div");
+      },
+    })
+  );
+  return state;
+}
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("useMailItem", () => {
+  it("stops loading when the selection clears during a load", async () => {
+    const msal = installFakeMsal();
+    // The token for the first item never arrives
+    msal.onSilent(() => new Promise(() => {}));
+    const { select } = stubMailbox("AAMk-1");
+
+    const item = mountMailItem();
+    await flushPromises();
+    expect(item.isLoading.value).toBe(true);
+
+    select(null);
+    await flushPromises();
+
+    expect(item.noItem.value).toBe(true);
+    expect(item.isLoading.value).toBe(false);
+    expect(item.details.value).toBeNull();
+  });
+});
@@ -2,19 +2,50 @@
  * useAuth.ts
  * ──────────
  * Vue composable that exposes reactive authentication state and
- * actions powered by the MSAL NAA auth service.
+ * actions powered by the MSAL NAA auth service.  The auth plugin
+ * (`plugins/authPlugin.ts`) provides one shared instance; without it
+ * `useAuth()` initialises MSAL on first mount.
  */
 
-import { ref, readonly, onMounted } from "vue";
+import {
+  ref,
+  shallowRef,
+  readonly,
+  onMounted,
+  inject,
+  hasInjectionContext,
+  type InjectionKey,
+} from "vue";
 import type { AccountInfo } from "@azure/msal-browser";
 import {
   getMsalInstance,
   getActiveAccount,
+  getAccounts,
+  switchAccount as authSwitchAccount,
+  isAccountMismatch,
+  getHostIdentity,
+  refreshHostIdentity,
+  getFeatureScopes,
+  getGrantedScopes,
+  normaliseScope,
+  getTokenStatus,
+  onTokenStatusChange,
   login as authLogin,
   logout as authLogout,
+  logoutAll as authLogoutAll,
+  onSessionEnded,
   acquireToken,
+  hasAuthContext as authHasAuthContext,
+  callApiWithClaimsRetry,
   callGraphWithClaimsRetry,
   graphScopes,
+  toAuthServiceError,
+  type ApiRequestOptions,
+  type AuthServiceError,
+  type HostIdentity,
+  type FeatureId,
+  type TokenStatus,
+  type SessionEndedEvent,
 } from "@/auth";
 
 /* ------------------------------------------------------------------ */
@@ -23,8 +54,27 @@ import {
 
 const isAuthenticated = ref(false);
 const account = ref<AccountInfo | null>(null);
+const accounts = ref<AccountInfo[]>([]);
+const hostIdentity = ref<HostIdentity | null>(null);
+/** Signed-in account is not the owner of the mailbox being viewed. */
+const accountMismatch = ref(false);
+/** Scopes granted to the active account (normalised, lower-case). */
+const grantedScopes = ref<string[]>([]);
+/**
+ * Status of the active account's Graph token: expiry, next background
+ * renewal and whether it is a long-lived CAE token.
+ */
+const tokenStatus = shallowRef<TokenStatus | null>(null);
+/**
+ * The last session Entra ID ended (revocation, disabled account…),
+ * until the user signs in again – the signed-out screen explains it.
+ */
+const sessionEnded = shallowRef<SessionEndedEvent | null>(null);
+/** Bumped after each step-up so `hasAuthContext()` re-evaluates. */
+const stepUps = ref(0);
 const isLoading = ref(false);
-const error = ref<string | null>(null);
+/** Last failure as a typed error – branch on `instanceof` / `code`. */
+const error = shallowRef<AuthServiceError | null>(null);
 
 /**
  * Sync local refs with the MSAL cache.
@@ -32,24 +82,60 @@ const error = ref<string | null>(null);
 function syncAccountState(): void {
   const active = getActiveAccount();
   account.value = active;
+  accounts.value = getAccounts();
+  hostIdentity.value = getHostIdentity();
+  accountMismatch.value = isAccountMismatch(active);
+  grantedScopes.value = getGrantedScopes(active);
+  tokenStatus.value = active ? getTokenStatus(active.homeAccountId) : null;
   isAuthenticated.value = active !== null;
 }
 
+// Background refreshes update the status without any component action
+onTokenStatusChange((status) => {
+  if (
+    status.resource === "graph" &&
+    status.accountId === account.value?.homeAccountId
+  ) {
+    tokenStatus.value = status;
+  }
+});
+
+// A revoked session has already been signed out by the auth service
+onSessionEnded((event) => {
+  sessionEnded.value = event;
+  error.value = event.error;
+  syncAccountState();
+});
+
+function resolveScopes(scopes: string[] | FeatureId): string[] {
+  return Array.isArray(scopes) ? scopes : getFeatureScopes(scopes);
+}
+
+let initPromise: Promise<void> | null = null;
+
+/**
+ * Initialise MSAL and load the account state – once; a failed start
+ * (reported through `error`) is retried on the next call.
+ */
+export function initAuth(): Promise<void> {
+  initPromise ??= getMsalInstance()
+    .then(() => syncAccountState())
+    .catch((e: unknown) => {
+      error.value = toAuthServiceError(e);
+      initPromise = null;
+    });
+  return initPromise;
+}
+
 /* ------------------------------------------------------------------ */
 /*  Composable                                                        */
 /* ------------------------------------------------------------------ */
 
-export function useAuth() {
-  /* ── Initialise MSAL on first mount ── */
-  onMounted(async () => {
-    try {
-      await getMsalInstance();
-      syncAccountState();
-    } catch (e: unknown) {
-      error.value = (e as Error).message;
-    }
-  });
-
+/**
+ * Build the auth state + actions object.  Components get it from
+ * {@link useAuth}; the plugin creates the shared one.
+ */
+export function createAuth() {
   /* ── Actions ── */
 
   async function login(): Promise<void> {
@@ -57,23 +143,55 @@ export function useAuth() {
     error.value = null;
     try {
       await authLogin();
+      sessionEnded.value = null;
       syncAccountState();
     } catch (e: unknown) {
-      error.value = (e as Error).message;
+      error.value = toAuthServiceError(e);
     } finally {
       isLoading.value = false;
     }
   }
 
+  /**
+   * Switch the active account (e.g. from an account picker).  Pass no
+   * argument to just re-read the Office host identity, e.g. after the
+   * user moved to another mailbox.
+   */
+  async function switchAccount(homeAccountId?: string): Promise<void> {
+    error.value = null;
+    try {
+      await refreshHostIdentity();
+      if (homeAccountId) {
+        authSwitchAccount(homeAccountId);
+      }
+      syncAccountState();
+    } catch (e: unknown) {
+      error.value = toAuthServiceError(e);
+    }
+  }
+
   async function logout(): Promise<void> {
     isLoading.value = true;
     error.value = null;
     try {
       await authLogout();
-      account.value = null;
-      isAuthenticated.value = false;
+      syncAccountState();
     } catch (e: unknown) {
-      error.value = (e as Error).message;
+      error.value = toAuthServiceError(e);
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /** Sign every signed-in account out. */
+  async function logoutAll(): Promise<void> {
+    isLoading.value = true;
+    error.value = null;
+    try {
+      await authLogoutAll();
+      syncAccountState();
+    } catch (e: unknown) {
+      error.value = toAuthServiceError(e);
     } finally {
       isLoading.value = false;
     }
@@ -94,30 +212,139 @@ export function useAuth() {
       syncAccountState();
       return result.accessToken;
     } catch (e: unknown) {
-      error.value = (e as Error).message;
+      error.value = toAuthServiceError(e);
       return null;
     } finally {
       isLoading.value = false;
     }
   }
 
+  /**
+   * True if every scope (or every scope of a feature) is known to be
+   * granted to the active account.  Reactive – usable in templates.
+   */
+  function hasScopes(scopes: string[] | FeatureId): boolean {
+    const granted = grantedScopes.value;
+    return resolveScopes(scopes).every((scope) =>
+      granted.includes(normaliseScope(scope))
+    );
+  }
+
+  /**
+   * Like {@link hasScopes}, but scopes not recorded yet (e.g. granted
+   * in an earlier session) are checked with a silent token request.
+   * Never prompts and never sets `error`.
+   */
+  async function checkScopes(scopes: string[] | FeatureId): Promise<boolean> {
+    if (hasScopes(scopes)) return true;
+    try {
+      await acquireToken(resolveScopes(scopes), "graph", {
+        interactive: false,
+      });
+      syncAccountState();
+      return hasScopes(scopes);
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Ask for `scopes` (or a feature's scopes) ahead of time, showing
+   * the consent prompt if needed.  Resolves `false` on failure, with
+   * `error` set – `AdminConsentRequiredError` means the user cannot
+   * grant them themselves.
+   */
+  async function requestScopes(scopes: string[] | FeatureId): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+    try {
+      await acquireToken(resolveScopes(scopes), "graph");
+      syncAccountState();
+      return true;
+    } catch (e: unknown) {
+      error.value = toAuthServiceError(e);
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * True if the active account holds a Graph token satisfying the
+   * Conditional Access authentication context `authContext` (e.g.
+   * "c1").  Reactive – usable in templates.
+   */
+  function hasAuthContext(authContext: string): boolean {
+    void tokenStatus.value;
+    void stepUps.value;
+    return authHasAuthContext(authContext);
+  }
+
+  /**
+   * Step up to `authContext` before a sensitive action: gets a token
+   * for `scopes` (or a feature's scopes) that satisfies the context,
+   * prompting through the NAA bridge (usually for MFA) if the current
+   * one does not.  The elevated token is cached apart from the
+   * baseline one.  Resolves `false` on failure, with `error` set.
+   */
+  async function requireAuthContext(
+    authContext: string,
+    scopes: string[] | FeatureId = graphScopes.userRead
+  ): Promise<boolean> {
+    isLoading.value = true;
+    error.value = null;
+    try {
+      await acquireToken(resolveScopes(scopes), "graph", { authContext });
+      stepUps.value++;
+      return true;
+    } catch (e: unknown) {
+      error.value = toAuthServiceError(e);
+      return false;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
   /**
    * Call Microsoft Graph handling claims challenges transparently.
    */
   async function callGraph<T = unknown>(
     endpoint: string,
-    scopes?: string[]
+    scopes?: string[],
+    options?: Omit<ApiRequestOptions, "scopes">
   ): Promise<T | null> {
     isLoading.value = true;
     error.value = null;
     try {
       const data = await callGraphWithClaimsRetry<T>(
         endpoint,
-        scopes ?? graphScopes.userRead
+        scopes ?? graphScopes.userRead,
+        options
       );
       return data;
     } catch (e: unknown) {
-      error.value = (e as Error).message;
+      error.value = toAuthServiceError(e);
+      return null;
+    } finally {
+      isLoading.value = false;
+    }
+  }
+
+  /**
+   * Call any registered protected API (see `resourceRegistry.ts`)
+   * handling claims challenges transparently.
+   */
+  async function callApi<T = unknown>(
+    resourceId: string,
+    path: string,
+    options?: ApiRequestOptions
+  ): Promise<T | null> {
+    isLoading.value = true;
+    error.value = null;
+    try {
+      return await callApiWithClaimsRetry<T>(resourceId, path, options);
+    } catch (e: unknown) {
+      error.value = toAuthServiceError(e);
       return null;
     } finally {
       isLoading.value = false;
@@ -128,13 +355,44 @@ export function useAuth() {
     // State (readonly to consumers)
     isAuthenticated: readonly(isAuthenticated),
     account: readonly(account),
+    accounts: readonly(accounts),
+    hostIdentity: readonly(hostIdentity),
+    accountMismatch: readonly(accountMismatch),
+    grantedScopes: readonly(grantedScopes),
+    tokenStatus: readonly(tokenStatus),
+    sessionEnded: readonly(sessionEnded),
     isLoading: readonly(isLoading),
     error: readonly(error),
 
     // Actions
     login,
     logout,
+    logoutAll,
+    switchAccount,
     getToken,
+    hasScopes,
+    checkScopes,
+    requestScopes,
+    hasAuthContext,
+    requireAuthContext,
     callGraph,
+    callApi,
   };
 }
+
+export type Auth = ReturnType<typeof createAuth>;
+
+/** Injection key of the auth instance provided by the auth plugin. */
+export const AUTH_KEY: InjectionKey<Auth> = Symbol("auth");
+
+/**
+ * The auth state and actions.  Uses the instance provided by the
+ * auth plugin when installed; otherwise initialises MSAL on mount.
+ */
+export function useAuth(): Auth {
+  const provided = hasInjectionContext() ? inject(AUTH_KEY, null) : null;
+  if (provided) return provided;
+
+  onMounted(() => initAuth());
+  return createAuth();
+}
@@ -0,0 +1,283 @@
+/**
+ * useGraph.ts
+ * ───────────
+ * Vue composable for Microsoft Graph queries.  Unlike `useAuth()`'s
+ * shared `isLoading` / `error`, every `useGraph()` call has its own
+ * state.  Responses are cached per account, endpoint and request
+ * options (scopes, headers, response type) and served
+ * stale-while-revalidate; a reactive endpoint refetches when it
+ * changes, and the request in flight is aborted when the component
+ * unmounts.
+ *
+ *   const { data, isLoading, error, refetch } =
+ *     useGraph<Profile>("/me", { scopes: "profile" });
+ */
+
+import {
+  ref,
+  shallowRef,
+  readonly,
+  watch,
+  toValue,
+  onScopeDispose,
+  type MaybeRefOrGetter,
+} from "vue";
+import {
+  callGraphWithClaimsRetry,
+  getActiveAccount,
+  getFeatureScopes,
+  graphScopes,
+  onSessionEnded,
+  toAuthServiceError,
+  type ApiRequestOptions,
+  type AuthServiceError,
+  type FeatureId,
+} from "@/auth";
+
+/* ------------------------------------------------------------------ */
+/*  Options                                                           */
+/* ------------------------------------------------------------------ */
+
+export interface UseGraphOptions
+  extends Pick<
+    ApiRequestOptions,
+    "headers" | "responseType" | "retry" | "cache"
+  > {
+  /** Scopes or a feature ID (default `User.Read`). */
+  scopes?: string[] | FeatureId;
+  /** Cached data younger than this is used without a request (default 30 s). */
+  staleTimeMs?: number;
+  /** Don't fetch while false (e.g. until a dependency is known). */
+  enabled?: MaybeRefOrGetter<boolean>;
+}
+
+/** Default age below which cached data is not revalidated. */
+export const DEFAULT_STALE_TIME_MS = 30 * 1000;
+
+/** Cached entries older than this are dropped. */
+export const GRAPH_CACHE_TTL_MS = 5 * 60 * 1000;
+
+/* ------------------------------------------------------------------ */
+/*  Response cache (shared by every useGraph)                         */
+/* ------------------------------------------------------------------ */
+
+interface CacheEntry {
+  data: unknown;
+  fetchedAt: number;
+}
+
+interface SharedRequest {
+  promise: Promise<unknown>;
+  controller: AbortController;
+  callers: number;
+}
+
+const cache = new Map<string, CacheEntry>();
+/** Identical requests in flight share one fetch. */
+const inFlight = new Map<string, SharedRequest>();
+
+/**
+ * `<account>|<variant>|<endpoint>`.  The variant covers everything
+ * else that changes the response – scopes, headers (`Prefer`,
+ * `ConsistencyLevel`) and the response type – and is URI-encoded so
+ * it never contains "|".
+ */
+function cacheKey(
+  endpoint: string,
+  scopes: string[],
+  options: Pick<UseGraphOptions, "headers" | "responseType">
+): string {
+  const headers = Object.entries(options.headers ?? {})
+    .map(([name, value]) => `${name.toLowerCase()}=${value}`)
+    .sort();
+  const variant = [
+    options.responseType ?? "json",
+    scopes.map((scope) => scope.toLowerCase()).sort().join(" "),
+    ...headers,
+  ]
+    .map(encodeURIComponent)
+    .join(";");
+  return `${getActiveAccount()?.homeAccountId ?? ""}|${variant}|${endpoint}`;
+}
+
+function readCache(key: string): CacheEntry | undefined {
+  const entry = cache.get(key);
+  if (entry && Date.now() - entry.fetchedAt > GRAPH_CACHE_TTL_MS) {
+    cache.delete(key);
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Drop cached responses – all of them, or those whose endpoint starts
+ * with `endpointPrefix` (e.g. after a mutation).
+ */
+export function invalidateGraphCache(endpointPrefix?: string): void {
+  for (const key of cache.keys()) {
+    const endpoint = key.split("|").slice(2).join("|");
+    if (endpointPrefix === undefined || endpoint.startsWith(endpointPrefix)) {
+      cache.delete(key);
+    }
+  }
+}
+
+// Nothing read under a revoked session is kept
+onSessionEnded(() => invalidateGraphCache());
+
+/* ------------------------------------------------------------------ */
+/*  Composable                                                        */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Query `endpoint` (a Graph path, or a ref / getter returning one –
+ * `null` means "nothing to load").
+ */
+export function useGraph<T = unknown>(
+  endpoint: MaybeRefOrGetter<string | null>,
+  options: UseGraphOptions = {}
+) {
+  const {
+    scopes = graphScopes.userRead,
+    staleTimeMs = DEFAULT_STALE_TIME_MS,
+    enabled = true,
+    ...requestOptions
+  } = options;
+
+  const data = shallowRef<T | null>(null);
+  const error = shallowRef<AuthServiceError | null>(null);
+  /** A request is running (including background revalidation). */
+  const isFetching = ref(false);
+  /** Fetching with nothing to show yet. */
+  const isLoading = ref(false);
+
+  let controller: AbortController | null = null;
+
+  /**
+   * Fetch `path`, joining an identical request already in flight.  The
+   * shared request is only aborted once every caller has aborted.
+   */
+  function fetchShared(
+    key: string,
+    path: string,
+    requestScopes: string[],
+    signal: AbortSignal
+  ) {
+    let request = inFlight.get(key);
+    if (!request || request.controller.signal.aborted) {
+      const shared = new AbortController();
+      const started: SharedRequest = {
+        controller: shared,
+        callers: 0,
+        promise: callGraphWithClaimsRetry<T>(path, requestScopes, {
+          ...requestOptions,
+          signal: shared.signal,
+        })
+          .then((result) => {
+            cache.set(key, { data: result, fetchedAt: Date.now() });
+            return result;
+          })
+          .finally(() => {
+            if (inFlight.get(key) === started) inFlight.delete(key);
+          }),
+      };
+      inFlight.set(key, (request = started));
+    }
+
+    request.callers++;
+    const joined = request;
+    signal.addEventListener("abort", () => {
+      if (--joined.callers === 0) joined.controller.abort();
+    });
+    return request.promise as Promise<T>;
+  }
+
+  /**
+   * Load the current endpoint.  Cached data is shown straight away and
+   * only revalidated once stale, unless `force` is set.
+   */
+  async function load(force = false): Promise<void> {
+    controller?.abort();
+    controller = null;
+
+    const path = toValue(endpoint);
+    if (!path || !toValue(enabled)) {
+      isFetching.value = isLoading.value = false;
+      return;
+    }
+
+    const requestScopes = Array.isArray(scopes)
+      ? scopes
+      : getFeatureScopes(scopes);
+    const key = cacheKey(path, requestScopes, requestOptions);
+    const cached = readCache(key);
+    if (cached) {
+      data.value = cached.data as T;
+      error.value = null;
+      if (!force && Date.now() - cached.fetchedAt < staleTimeMs) {
+        isFetching.value = isLoading.value = false;
+        return;
+      }
+    }
+
+    const current = (controller = new AbortController());
+    isFetching.value = true;
+    isLoading.value = !cached;
+
+    try {
+      const result = await fetchShared(
+        key,
+        path,
+        requestScopes,
+        current.signal
+      );
+      if (current.signal.aborted) return;
+      data.value = result;
+      error.value = null;
+    } catch (e: unknown) {
+      if (current.signal.aborted) return;
+      error.value = toAuthServiceError(e);
+    } finally {
+      if (controller === current) {
+        isFetching.value = isLoading.value = false;
+        controller = null;
+      }
+    }
+  }
+
+  /** Fetch again, ignoring the cache's freshness. */
+  function refetch(): Promise<void> {
+    return load(true);
+  }
+
+  /** Abandon the request in flight (its result is discarded). */
+  function abort(): void {
+    controller?.abort();
+    controller = null;
+    isFetching.value = isLoading.value = false;
+  }
+
+  watch(
+    () => [toValue(endpoint), toValue(enabled)] as const,
+    ([path], previous) => {
+      // A different endpoint must not show the previous one's data
+      if (previous && path !== previous[0]) {
+        data.value = null;
+        error.value = null;
+      }
+      void load();
+    },
+    { immediate: true }
+  );
+
+  onScopeDispose(abort);
+
+  return {
+    data: readonly(data),
+    error: readonly(error),
+    isLoading: readonly(isLoading),
+    isFetching: readonly(isFetching),
+    refetch,
+    abort,
+  };
+}
@@ -0,0 +1,86 @@
+/**
+ * useMailItem.ts
+ * ──────────────
+ * Vue composable that loads the Outlook item open in the host through
+ * Microsoft Graph (message, attachments, conversation) and reloads it
+ * when the user selects another item in a pinned task pane.  Items in
+ * shared or delegated mailboxes are read from their owner's mailbox.
+ */
+
+import { ref, shallowRef, readonly, onMounted, onUnmounted } from "vue";
+import { toAuthServiceError, type AuthServiceError } from "@/auth";
+import {
+  getCurrentItemRestId,
+  getCurrentMailbox,
+  loadMailItem,
+  onItemChanged,
+  OWN_MAILBOX,
+  type MailboxContext,
+  type MailItemDetails,
+} from "@/mail/mailItemService";
+
+export function useMailItem() {
+  /* ── Per-component state (each view shows its own item) ── */
+  const details = shallowRef<MailItemDetails | null>(null);
+  /** Mailbox of the current item (known before its details load). */
+  const mailbox = shallowRef<MailboxContext>(OWN_MAILBOX);
+  /** No item is open (or a compose item is not saved yet). */
+  const noItem = ref(false);
+  const isLoading = ref(false);
+  const error = shallowRef<AuthServiceError | null>(null);
+
+  let controller: AbortController | null = null;
+  let unsubscribe: (() => void) | undefined;
+
+  /** (Re)load the current item; a load in progress is abandoned. */
+  async function reload(): Promise<void> {
+    controller?.abort();
+    const current = (controller = new AbortController());
+
+    error.value = null;
+    const restId = getCurrentItemRestId();
+    noItem.value = restId === null;
+    if (!restId) {
+      details.value = null;
+      mailbox.value = OWN_MAILBOX;
+      // The abandoned load no longer owns the flag – clear it here
+      isLoading.value = false;
+      return;
+    }
+
+    isLoading.value = true;
+    try {
+      const itemMailbox = await getCurrentMailbox();
+      if (current.signal.aborted) return;
+      mailbox.value = itemMailbox;
+      const loaded = await loadMailItem(restId, itemMailbox, current.signal);
+      if (!current.signal.aborted) details.value = loaded;
+    } catch (e: unknown) {
+      if (!current.signal.aborted) {
+        details.value = null;
+        error.value = toAuthServiceError(e);
+      }
+    } finally {
+      if (controller === current) isLoading.value = false;
+    }
+  }
+
+  onMounted(() => {
+    unsubscribe = onItemChanged(() => void reload());
+    void reload();
+  });
+
+  onUnmounted(() => {
+    unsubscribe?.();
+    controller?.abort();
+  });
+
+  return {
+    details: readonly(details),
+    mailbox: readonly(mailbox),
+    noItem: readonly(noItem),
+    isLoading: readonly(isLoading),
+    error: readonly(error),
+    reload,
+  };
+}
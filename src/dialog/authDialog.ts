@@ -0,0 +1,75 @@
+/* eslint-disable no-console */
+
+/**
+ * authDialog.ts
+ * ─────────────
+ * Script for `dialog.html`, opened with `displayDialogAsync` when the
+ * host has no Nested App Authentication.  It runs a standard MSAL
+ * redirect flow and reports the outcome to the task pane with
+ * `Office.context.ui.messageParent` (see `auth/dialogFallback.ts`).
+ */
+
+import {
+  AuthError,
+  InteractionRequiredAuthError,
+  createStandardPublicClientApplication,
+  type RedirectRequest,
+} from "@azure/msal-browser";
+
+import { msalConfig, loadAppConfig } from "@/auth";
+import {
+  getStandardMsalConfig,
+  type DialogAuthMessage,
+  type DialogAuthRequest,
+} from "@/auth/dialogFallback";
+
+function send(message: DialogAuthMessage): void {
+  Office.context.ui.messageParent(JSON.stringify(message));
+}
+
+function readRequest(): DialogAuthRequest | null {
+  const raw = new URLSearchParams(window.location.search).get("request");
+  return raw ? (JSON.parse(raw) as DialogAuthRequest) : null;
+}
+
+async function run(): Promise<void> {
+  await loadAppConfig();
+  const pca = await createStandardPublicClientApplication(
+    getStandardMsalConfig(msalConfig)
+  );
+
+  // ② Back from Entra ID – hand the result to the task pane
+  const result = await pca.handleRedirectPromise();
+  if (result) {
+    send({ status: "success", result });
+    return;
+  }
+
+  // ① First load – start the redirect flow with the task pane's request
+  const request = readRequest();
+  if (!request) {
+    throw new AuthError("invalid_request", "No auth request was supplied.");
+  }
+
+  const redirectRequest: RedirectRequest = {
+    scopes: request.scopes,
+    claims: request.claims,
+    loginHint: request.loginHint,
+    prompt: request.prompt,
+  };
+  await pca.acquireTokenRedirect(redirectRequest);
+}
+
+Office.onReady(() => {
+  run().catch((error: unknown) => {
+    console.error(error);
+    const authError = error instanceof AuthError ? error : undefined;
+    send({
+      status: "error",
+      errorCode: authError?.errorCode ?? "unknown_error",
+      errorMessage: (error as Error).message ?? String(error),
+      subError: authError?.subError,
+      interactionRequired: error instanceof InteractionRequiredAuthError,
+    });
+  });
+});
@@ -0,0 +1,165 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from "vitest";
+
+import {
+  configureInteractiveAuth,
+  validateAppConfig,
+  applyAppConfig,
+  InteractionRequiredError,
+  ApiError,
+  clearDiagnostics,
+  getDiagnostics,
+} from "@/auth";
+import {
+  configureSendPolicy,
+  getSendPolicy,
+  onMessageSendHandler,
+} from "@/events/launchEvents";
+import type { ComposeSnapshot } from "@/events/complianceCheck";
+import { installFakeMsal, resetAuthState } from "@/test/harness";
+
+const clientId = "11111111-1111-1111-1111-111111111111";
+const defaultPolicy = { ...getSendPolicy() };
+
+function succeeded<T>(value: T) {
+  const result = { status: "succeeded", value };
+  return (callback: (result: Office.AsyncResult<T>) => void) =>
+    callback(result as unknown as Office.AsyncResult<T>);
+}
+
+function stubComposeItem() {
+  const recipient = (emailAddress: string) => ({ emailAddress });
+  vi.stubGlobal("Office", {
+    AsyncResultStatus: { Succeeded: "succeeded" },
+    context: {
+      mailbox: {
+        item: {
+          subject: { getAsync: succeeded("Quarterly numbers") },
+          to: { getAsync: succeeded([recipient("lee@fabrikam.com")]) },
+          cc: { getAsync: succeeded([]) },
+          bcc: { getAsync: succeeded([]) },
+          getAttachmentsAsync: succeeded([
+            { name: "q3.xlsx", size: 5120, isInline: false, id: "a1" },
+          ]),
+        },
+      },
+    },
+  });
+}
+
+function mailboxEvent() {
+  return { completed: vi.fn() } as unknown as Office.MailboxEvent & {
+    completed: ReturnType<typeof vi.fn>;
+  };
+}
+
+beforeEach(() => {
+  resetAuthState();
+  vi.stubEnv("VITE_CLIENT_ID", clientId);
+  configureInteractiveAuth({ enabled: false });
+  installFakeMsal();
+  stubComposeItem();
+});
+
+afterEach(() => {
+  configureSendPolicy(defaultPolicy);
+  configureInteractiveAuth({ enabled: true });
+  vi.unstubAllEnvs();
+  applyAppConfig(validateAppConfig({ clientId }));
+});
+
+describe("onMessageSendHandler", () => {
+  it("passes a snapshot of the message to the check", async () => {
+    let seen: ComposeSnapshot | undefined;
+    configureSendPolicy({
+      check: async (snapshot) => {
+        seen = snapshot;
+        return { allowed: true };
+      },
+    });
+    const event = mailboxEvent();
+
+    await onMessageSendHandler(event);
+
+    expect(seen).toEqual({
+      subject: "Quarterly numbers",
+      to: ["lee@fabrikam.com"],
+      cc: [],
+      bcc: [],
+      attachments: [{ name: "q3.xlsx", size: 5120, isInline: false }],
+    });
+    expect(event.completed).toHaveBeenCalledWith({ allowEvent: true });
+  });
+
+  it("blocks with the verdict's message", async () => {
+    configureSendPolicy({
+      check: async () => ({ allowed: false, message: "External recipient" }),
+    });
+    const event = mailboxEvent();
+
+    await onMessageSendHandler(event);
+
+    expect(event.completed).toHaveBeenCalledWith({
+      allowEvent: false,
+      errorMessage: "External recipient",
+    });
+  });
+
+  it("soft-blocks and offers sign-in when the user is needed", async () => {
+    configureSendPolicy({
+      check: async () => {
+        throw new InteractionRequiredError();
+      },
+    });
+    const event = mailboxEvent();
+
+    await onMessageSendHandler(event);
+
+    expect(event.completed).toHaveBeenCalledWith(
+      expect.objectContaining({
+        allowEvent: false,
+        cancelLabel: "Sign in",
+        commandId: "TaskPaneAction",
+      })
+    );
+  });
+
+  it("follows the policy for interaction and other failures", async () => {
+    configureSendPolicy({
+      whenInteractionRequired: "allow",
+      whenCheckFails: "softBlock",
+      check: async () => {
+        throw new InteractionRequiredError();
+      },
+    });
+    const allowed = mailboxEvent();
+    await onMessageSendHandler(allowed);
+    expect(allowed.completed).toHaveBeenCalledWith({ allowEvent: true });
+
+    configureSendPolicy({
+      check: async () => {
+        throw new ApiError("compliance", 503, "Service Unavailable", "");
+      },
+    });
+    const blocked = mailboxEvent();
+    await onMessageSendHandler(blocked);
+    expect(blocked.completed.mock.calls[0][0]).toMatchObject({
+      allowEvent: false,
+    });
+  });
+
+  it("soft-blocks when no compliance resource is configured", async () => {
+    clearDiagnostics();
+    const event = mailboxEvent();
+
+    await onMessageSendHandler(event);
+
+    expect(event.completed.mock.calls[0][0]).toMatchObject({
+      allowEvent: false,
+    });
+    expect(getDiagnostics().at(-1)).toMatchObject({
+      type: "error",
+      message: "Send check failed",
+      details: { code: "configuration", action: "softBlock" },
+    });
+  });
+});
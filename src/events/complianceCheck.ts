@@ -0,0 +1,117 @@
+/**
+ * complianceCheck.ts
+ * ──────────────────
+ * The on-send compliance check: a snapshot of the message being sent
+ * (subject, recipients, attachments) is posted to the `compliance`
+ * protected resource, which answers whether it may go out.  Calls go
+ * through `callApiWithClaimsRetry()`, so CAE challenges are handled
+ * like any other API call.
+ */
+
+import {
+  callApiWithClaimsRetry,
+  getProtectedResourceIds,
+  ConfigurationError,
+} from "@/auth";
+
+/* ------------------------------------------------------------------ */
+/*  Types                                                             */
+/* ------------------------------------------------------------------ */
+
+/** What the compliance API gets to see of the message being sent. */
+export interface ComposeSnapshot {
+  subject: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  attachments: { name: string; size: number; isInline: boolean }[];
+}
+
+export interface ComplianceVerdict {
+  allowed: boolean;
+  /** Shown to the user when the message is blocked. */
+  message?: string;
+}
+
+export type ComplianceCheck = (
+  snapshot: ComposeSnapshot,
+  signal: AbortSignal
+) => Promise<ComplianceVerdict>;
+
+/** Resource ID the default check calls (see `protectedResources`). */
+export const COMPLIANCE_RESOURCE_ID = "compliance";
+
+/* ------------------------------------------------------------------ */
+/*  Snapshot                                                          */
+/* ------------------------------------------------------------------ */
+
+function getAsync<T>(
+  read: (callback: (result: Office.AsyncResult<T>) => void) => void
+): Promise<T> {
+  return new Promise((resolve, reject) => {
+    read((result) => {
+      if (result.status === Office.AsyncResultStatus.Succeeded) {
+        resolve(result.value);
+      } else {
+        reject(new Error(result.error.message));
+      }
+    });
+  });
+}
+
+function addresses(recipients: Office.EmailAddressDetails[]): string[] {
+  return recipients.map((r) => r.emailAddress);
+}
+
+/** Read the parts of the compose item the compliance API checks. */
+export async function readComposeSnapshot(
+  item: Office.MessageCompose
+): Promise<ComposeSnapshot> {
+  const [subject, to, cc, bcc, attachments] = await Promise.all([
+    getAsync<string>((cb) => item.subject.getAsync(cb)),
+    getAsync<Office.EmailAddressDetails[]>((cb) => item.to.getAsync(cb)),
+    getAsync<Office.EmailAddressDetails[]>((cb) => item.cc.getAsync(cb)),
+    getAsync<Office.EmailAddressDetails[]>((cb) => item.bcc.getAsync(cb)),
+    getAsync<Office.AttachmentDetailsCompose[]>((cb) =>
+      item.getAttachmentsAsync(cb)
+    ),
+  ]);
+
+  return {
+    subject,
+    to: addresses(to),
+    cc: addresses(cc),
+    bcc: addresses(bcc),
+    attachments: attachments.map(({ name, size, isInline }) => ({
+      name,
+      size,
+      isInline,
+    })),
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Default check                                                     */
+/* ------------------------------------------------------------------ */
+
+/**
+ * POST the snapshot to `compliance` `/check`.  Without a registered
+ * compliance resource the check cannot run and throws a
+ * `ConfigurationError`.
+ */
+export const defaultComplianceCheck: ComplianceCheck = async (
+  snapshot,
+  signal
+) => {
+  if (!getProtectedResourceIds().includes(COMPLIANCE_RESOURCE_ID)) {
+    throw new ConfigurationError(
+      `No "${COMPLIANCE_RESOURCE_ID}" resource is configured`
+    );
+  }
+
+  return callApiWithClaimsRetry<ComplianceVerdict>(
+    COMPLIANCE_RESOURCE_ID,
+    "/check",
+    { method: "POST", json: snapshot, signal }
+  );
+};
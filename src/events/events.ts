@@ -0,0 +1,18 @@
+// Event-based activation runtime (no UI – see launchEvents.ts)
+
+import { configureInteractiveAuth } from "@/auth";
+import {
+  onMessageSendHandler,
+  onNewMessageComposeHandler,
+} from "./launchEvents";
+
+// Prompts are impossible here; the task pane resolves what needs the user
+configureInteractiveAuth({ enabled: false });
+
+// Handlers must be associated as soon as the script loads, not in
+// Office.onReady – Outlook may raise the event before that fires.
+Office.actions.associate("onMessageSendHandler", onMessageSendHandler);
+Office.actions.associate(
+  "onNewMessageComposeHandler",
+  onNewMessageComposeHandler
+);
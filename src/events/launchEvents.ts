@@ -0,0 +1,185 @@
+/**
+ * launchEvents.ts
+ * ───────────────
+ * Event-based activation handlers (`OnMessageSend`,
+ * `OnNewMessageCompose`).  They run in a headless runtime, so tokens
+ * are acquired without prompts; what happens when the user is needed
+ * – typically a claims challenge that cannot be satisfied silently –
+ * is decided by the {@link SendPolicy}.
+ */
+
+import {
+  acquireToken,
+  ensureAppConfig,
+  getProtectedResource,
+  getProtectedResourceIds,
+  recordDiagnostic,
+  toAuthServiceError,
+} from "@/auth";
+import {
+  TASK_PANE_ACTION_ID,
+  needsTaskPane,
+  showOpenTaskPane,
+} from "@/commands/notifications";
+import {
+  COMPLIANCE_RESOURCE_ID,
+  defaultComplianceCheck,
+  readComposeSnapshot,
+  type ComplianceCheck,
+} from "./complianceCheck";
+
+/* ------------------------------------------------------------------ */
+/*  Send policy                                                       */
+/* ------------------------------------------------------------------ */
+
+/**
+ * `"softBlock"` stops the send with a message (the user can fix the
+ * problem and send again); `"allow"` lets the message go unchecked.
+ */
+export type SendFailureAction = "softBlock" | "allow";
+
+export interface SendPolicy {
+  /** The check needs the user: sign-in, consent or a claims challenge. */
+  whenInteractionRequired: SendFailureAction;
+  /**
+   * The check failed for another reason (network, 5xx, timeout, or no
+   * compliance resource configured).
+   */
+  whenCheckFails: SendFailureAction;
+  /** Abort the check after this long (Outlook allows about 5 min). */
+  timeoutMs: number;
+  check: ComplianceCheck;
+}
+
+const defaultSendPolicy: SendPolicy = {
+  whenInteractionRequired: "softBlock",
+  whenCheckFails: "softBlock",
+  timeoutMs: 30_000,
+  check: defaultComplianceCheck,
+};
+
+let sendPolicy: SendPolicy = { ...defaultSendPolicy };
+
+/** Override parts of the send policy (call before the handlers run). */
+export function configureSendPolicy(options: Partial<SendPolicy>): void {
+  sendPolicy = { ...sendPolicy, ...options };
+}
+
+/** The policy in force. */
+export function getSendPolicy(): SendPolicy {
+  return sendPolicy;
+}
+
+/* ------------------------------------------------------------------ */
+/*  OnMessageSend                                                     */
+/* ------------------------------------------------------------------ */
+
+function blockForSignIn(event: Office.MailboxEvent): void {
+  event.completed({
+    allowEvent: false,
+    errorMessage:
+      "Sign in to the NAA CAE add-in so this message can be checked " +
+      "before it is sent.",
+    cancelLabel: "Sign in",
+    commandId: TASK_PANE_ACTION_ID,
+  });
+}
+
+/** Run the compliance check and allow or soft-block the send. */
+export async function onMessageSendHandler(
+  event: Office.MailboxEvent
+): Promise<void> {
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), sendPolicy.timeoutMs);
+
+  try {
+    await ensureAppConfig();
+    const item = Office.context.mailbox.item as Office.MessageCompose;
+    const verdict = await sendPolicy.check(
+      await readComposeSnapshot(item),
+      controller.signal
+    );
+
+    recordDiagnostic("api", "Send check completed", {
+      allowed: verdict.allowed,
+    });
+    event.completed(
+      verdict.allowed
+        ? { allowEvent: true }
+        : {
+            allowEvent: false,
+            errorMessage:
+              verdict.message ?? "This message breaks the compliance policy.",
+          }
+    );
+  } catch (e: unknown) {
+    const error = toAuthServiceError(e);
+    const interaction = needsTaskPane(error);
+    const action = interaction
+      ? sendPolicy.whenInteractionRequired
+      : sendPolicy.whenCheckFails;
+
+    recordDiagnostic("error", "Send check failed", {
+      code: error.code,
+      error: error.message,
+      action,
+    });
+
+    if (action === "allow") {
+      event.completed({ allowEvent: true });
+    } else if (interaction) {
+      blockForSignIn(event);
+    } else {
+      event.completed({
+        allowEvent: false,
+        errorMessage:
+          error.code === "configuration"
+            ? "The compliance check is not set up for this add-in. " +
+              "Contact your administrator."
+            : "The compliance check could not run. Try sending again " +
+              "in a moment.",
+      });
+    }
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/* ------------------------------------------------------------------ */
+/*  OnNewMessageCompose                                               */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Acquire the compliance API token (Graph when none is registered)
+ * while the user writes, so the send check doesn't wait for it, and
+ * ask them to sign in now if that needs interaction.
+ */
+export async function onNewMessageComposeHandler(
+  event: Office.MailboxEvent
+): Promise<void> {
+  try {
+    await ensureAppConfig();
+    const resourceId = getProtectedResourceIds().includes(
+      COMPLIANCE_RESOURCE_ID
+    )
+      ? COMPLIANCE_RESOURCE_ID
+      : "graph";
+    const resource = getProtectedResource(resourceId);
+    await acquireToken(resource.scopes, resource.claimsKey);
+  } catch (e: unknown) {
+    const error = toAuthServiceError(e);
+    recordDiagnostic("error", "Compose token warm-up failed", {
+      code: error.code,
+      error: error.message,
+    });
+
+    if (needsTaskPane(error)) {
+      await showOpenTaskPane(
+        "OnNewMessageCompose",
+        "Sign in to the NAA CAE add-in so messages can be checked on send."
+      );
+    }
+  } finally {
+    event.completed();
+  }
+}
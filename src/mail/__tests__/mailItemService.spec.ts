@@ -0,0 +1,158 @@
+import { describe, it, expect, beforeEach, vi } from "vitest";
+
+import {
+  getCurrentItemRestId,
+  getCurrentMailbox,
+  loadMailItem,
+  onItemChanged,
+  OWN_MAILBOX,
+  type MailboxContext,
+} from "@/mail/mailItemService";
+import {
+  installFakeMsal,
+  resetAuthState,
+  scriptFetch,
+  jsonResponse,
+} from "@/test/harness";
+
+function stubMailbox(
+  itemId?: string,
+  hostName = "Outlook",
+  sharedOwner?: string
+) {
+  const getSharedPropertiesAsync = (
+    callback: (result: { status: string; value: object }) => void
+  ) =>
+    callback({
+      status: "succeeded",
+      value: { owner: sharedOwner, delegatePermissions: 1 },
+    });
+  const mailbox = {
+    item: itemId
+      ? { itemId, ...(sharedOwner && { getSharedPropertiesAsync }) }
+      : null,
+    userProfile: { emailAddress: "adele@contoso.com" },
+    diagnostics: { hostName },
+    convertToRestId: vi.fn((id: string) => id.replace(/\//g, "-")),
+    addHandlerAsync: vi.fn(),
+    removeHandlerAsync: vi.fn(),
+  };
+  vi.stubGlobal("Office", {
+    context: { mailbox },
+    EventType: { ItemChanged: "olkItemSelectedChanged" },
+    AsyncResultStatus: { Succeeded: "succeeded", Failed: "failed" },
+    MailboxEnums: { RestVersion: { v2_0: "v2.0" } },
+  });
+  return mailbox;
+}
+
+beforeEach(() => {
+  resetAuthState();
+});
+
+describe("getCurrentItemRestId", () => {
+  it("converts EWS IDs to REST IDs", () => {
+    const mailbox = stubMailbox("AAMk/ews=");
+
+    expect(getCurrentItemRestId()).toBe("AAMk-ews=");
+    expect(mailbox.convertToRestId).toHaveBeenCalledWith("AAMk/ews=", "v2.0");
+  });
+
+  it("keeps REST IDs from Outlook mobile and handles no item", () => {
+    const mailbox = stubMailbox("AAMk-rest", "OutlookIOS");
+    expect(getCurrentItemRestId()).toBe("AAMk-rest");
+    expect(mailbox.convertToRestId).not.toHaveBeenCalled();
+
+    stubMailbox(undefined);
+    expect(getCurrentItemRestId()).toBeNull();
+  });
+});
+
+describe("loadMailItem", () => {
+  it("loads the message, attachments and the rest of the thread", async () => {
+    installFakeMsal();
+    const requests = scriptFetch(
+      jsonResponse({ id: "m2", subject: "Re: Plan", conversationId: "c'1" }),
+      jsonResponse({ value: [{ id: "a1", name: "plan.pdf", size: 2048 }] }),
+      jsonResponse({
+        value: [
+          { id: "m2", receivedDateTime: "2024-05-02T09:00:00Z" },
+          { id: "m1", receivedDateTime: "2024-05-01T09:00:00Z" },
+        ],
+      })
+    );
+
+    const details = await loadMailItem("AAMk-1");
+
+    expect(details.message.subject).toBe("Re: Plan");
+    expect(details.attachments.map((a) => a.name)).toEqual(["plan.pdf"]);
+    expect(details.conversation.map((m) => m.id)).toEqual(["m1"]);
+
+    expect(requests[0].url).toMatch(/\/me\/messages\/AAMk-1\?\$select=/);
+    expect(requests[0].headers.get("Prefer")).toBe(
+      'outlook.body-content-type="text"'
+    );
+    expect(requests[1].url).toContain("/me/messages/AAMk-1/attachments");
+    expect(decodeURIComponent(requests[2].url)).toContain(
+      "conversationId eq 'c''1'"
+    );
+  });
+});
+
+describe("shared mailboxes", () => {
+  const shared: MailboxContext = {
+    owner: "sales@contoso.com",
+    delegatePermissions: 1,
+  };
+
+  it("reads the owner of items in shared folders", async () => {
+    stubMailbox("AAMk", "Outlook", "sales@contoso.com");
+    expect(await getCurrentMailbox()).toEqual(shared);
+
+    stubMailbox("AAMk", "Outlook", "Adele@contoso.com");
+    expect(await getCurrentMailbox()).toBe(OWN_MAILBOX);
+
+    stubMailbox("AAMk");
+    expect(await getCurrentMailbox()).toBe(OWN_MAILBOX);
+  });
+
+  it("loads from the owner's mailbox with the shared scopes", async () => {
+    const msal = installFakeMsal();
+    const requests = scriptFetch(
+      jsonResponse({ id: "m1", conversationId: "c1" }),
+      jsonResponse({ value: [] }),
+      jsonResponse({ value: [{ id: "m1" }] })
+    );
+
+    await loadMailItem("AAMk-1", shared);
+
+    expect(requests.map((request) => new URL(request.url).pathname)).toEqual([
+      "/v1.0/users/sales%40contoso.com/messages/AAMk-1",
+      "/v1.0/users/sales%40contoso.com/messages/AAMk-1/attachments",
+      "/v1.0/users/sales%40contoso.com/messages",
+    ]);
+    expect(msal.silentRequests[0].scopes).toEqual(["Mail.Read.Shared"]);
+  });
+});
+
+describe("onItemChanged", () => {
+  it("shares one Office handler between listeners", () => {
+    const mailbox = stubMailbox("AAMk");
+    const first = vi.fn();
+    const second = vi.fn();
+
+    const offFirst = onItemChanged(first);
+    const offSecond = onItemChanged(second);
+    expect(mailbox.addHandlerAsync).toHaveBeenCalledTimes(1);
+
+    const dispatch = mailbox.addHandlerAsync.mock.calls[0][1] as () => void;
+    dispatch();
+    expect(first).toHaveBeenCalledOnce();
+    expect(second).toHaveBeenCalledOnce();
+
+    offFirst();
+    expect(mailbox.removeHandlerAsync).not.toHaveBeenCalled();
+    offSecond();
+    expect(mailbox.removeHandlerAsync).toHaveBeenCalledOnce();
+  });
+});
@@ -0,0 +1,315 @@
+/**
+ * mailItemService.ts
+ * ──────────────────
+ * Reads the Outlook item the user is looking at through Microsoft
+ * Graph: the full message (body, internet headers), its attachments
+ * and the other messages of its conversation.
+ *
+ * Office.js hands out EWS-format item IDs; Graph needs the REST
+ * format, so IDs go through `mailbox.convertToRestId()` first.  Every
+ * call uses the claims-retry helpers, so CAE challenges are handled
+ * like anywhere else in the add-in.
+ *
+ * Items in a shared folder or shared mailbox, or in a mailbox the user
+ * is a delegate of, live in someone else's mailbox: `/me/...` would
+ * 404 or return the wrong message.  `getCurrentMailbox()` reads the
+ * owner from `item.getSharedPropertiesAsync()` and the Graph reads go
+ * to `/users/{owner}/...` with the `*.Shared` scopes instead.
+ */
+
+import {
+  callGraphWithClaimsRetry,
+  collectGraphItems,
+  featureScopes,
+  type FeatureId,
+} from "@/auth";
+
+/* ------------------------------------------------------------------ */
+/*  Types (subset of the Graph message resource)                      */
+/* ------------------------------------------------------------------ */
+
+export interface MailAddress {
+  emailAddress: { name?: string; address?: string };
+}
+
+export interface MailMessage {
+  id: string;
+  subject?: string;
+  from?: MailAddress;
+  toRecipients?: MailAddress[];
+  ccRecipients?: MailAddress[];
+  receivedDateTime?: string;
+  conversationId?: string;
+  hasAttachments?: boolean;
+  importance?: string;
+  webLink?: string;
+  body?: { contentType: "text" | "html"; content: string };
+  internetMessageHeaders?: { name: string; value: string }[];
+}
+
+export interface MailAttachment {
+  id: string;
+  name: string;
+  contentType?: string;
+  size: number;
+  isInline: boolean;
+}
+
+/** A message of the same conversation, without its body. */
+export type ConversationMessage = Pick<
+  MailMessage,
+  "id" | "subject" | "from" | "receivedDateTime"
+> & { bodyPreview?: string };
+
+/** Whose mailbox an item is in. */
+export interface MailboxContext {
+  /** SMTP address of the owner; `null` for the user's own mailbox. */
+  owner: string | null;
+  /**
+   * Permissions granted to the user on the owner's mailbox
+   * (`Office.MailboxEnums.DelegatePermissions` flags); 0 for the
+   * user's own mailbox.
+   */
+  delegatePermissions: number;
+}
+
+/** The signed-in user's own mailbox. */
+export const OWN_MAILBOX: MailboxContext = {
+  owner: null,
+  delegatePermissions: 0,
+};
+
+export interface MailItemDetails {
+  /** Mailbox the item was read from. */
+  mailbox: MailboxContext;
+  message: MailMessage;
+  attachments: MailAttachment[];
+  /** Other messages of the conversation, oldest first. */
+  conversation: ConversationMessage[];
+}
+
+/** Maximum number of conversation messages loaded. */
+export const CONVERSATION_LIMIT = 25;
+
+const MESSAGE_FIELDS = [
+  "id",
+  "subject",
+  "from",
+  "toRecipients",
+  "ccRecipients",
+  "receivedDateTime",
+  "conversationId",
+  "hasAttachments",
+  "importance",
+  "webLink",
+  "body",
+  "internetMessageHeaders",
+].join(",");
+
+/* ------------------------------------------------------------------ */
+/*  Office item → Graph ID                                            */
+/* ------------------------------------------------------------------ */
+
+/** Outlook mobile already hands out REST-format IDs. */
+function usesRestIds(): boolean {
+  const hostName = Office.context.mailbox.diagnostics.hostName;
+  return hostName === "OutlookIOS" || hostName === "OutlookAndroid";
+}
+
+/** Convert an Office.js (EWS) item ID to the REST format Graph uses. */
+export function toRestId(itemId: string): string {
+  if (usesRestIds()) return itemId;
+  return Office.context.mailbox.convertToRestId(
+    itemId,
+    Office.MailboxEnums.RestVersion.v2_0
+  );
+}
+
+/**
+ * REST ID of the item open in Outlook, or `null` when there is none
+ * (nothing selected, or a compose item that has not been saved).
+ */
+export function getCurrentItemRestId(): string | null {
+  const itemId = Office.context.mailbox?.item?.itemId;
+  return itemId ? toRestId(itemId) : null;
+}
+
+/* ------------------------------------------------------------------ */
+/*  Shared / delegated mailboxes                                      */
+/* ------------------------------------------------------------------ */
+
+/**
+ * Mailbox of the item open in Outlook.  Items outside shared folders
+ * have no `getSharedPropertiesAsync` (or report the user as owner),
+ * which means the user's own mailbox.
+ */
+export function getCurrentMailbox(): Promise<MailboxContext> {
+  const item = Office.context.mailbox?.item as
+    | Partial<Pick<Office.MessageRead, "getSharedPropertiesAsync">>
+    | null
+    | undefined;
+  const getSharedProperties = item?.getSharedPropertiesAsync?.bind(item);
+  if (!getSharedProperties) {
+    return Promise.resolve(OWN_MAILBOX);
+  }
+
+  return new Promise((resolve, reject) => {
+    getSharedProperties((result) => {
+      if (result.status === Office.AsyncResultStatus.Failed) {
+        reject(new Error(result.error.message));
+        return;
+      }
+      const { owner, delegatePermissions } = result.value;
+      const user = Office.context.mailbox.userProfile?.emailAddress;
+      resolve(
+        !owner || owner.toLowerCase() === user?.toLowerCase()
+          ? OWN_MAILBOX
+          : { owner, delegatePermissions }
+      );
+    });
+  });
+}
+
+/** Graph path of a mailbox: `/me` or `/users/{owner}`. */
+export function mailboxPath(mailbox: MailboxContext = OWN_MAILBOX): string {
+  return mailbox.owner
+    ? `/users/${encodeURIComponent(mailbox.owner)}`
+    : "/me";
+}
+
+/**
+ * Feature (and so scopes) needed to read, or with `write` to change,
+ * mail in `mailbox`: the `*.Shared` variants for someone else's.
+ */
+export function mailFeature(
+  mailbox: MailboxContext = OWN_MAILBOX,
+  write = false
+): FeatureId {
+  if (mailbox.owner) return write ? "organiseSharedMail" : "readSharedMail";
+  return write ? "organiseMail" : "readMail";
+}
+
+const itemChangedListeners = new Set<() => void>();
+
+function dispatchItemChanged(): void {
+  for (const listener of itemChangedListeners) {
+    listener();
+  }
+}
+
+/**
+ * Run `listener` whenever the user selects another item while the
+ * task pane is pinned.  Outlook keeps a single handler per event
+ * type, so one is registered for all listeners and removed with the
+ * last of them.
+ *
+ * @returns An unsubscribe function.
+ */
+export function onItemChanged(listener: () => void): () => void {
+  if (itemChangedListeners.size === 0) {
+    Office.context.mailbox.addHandlerAsync(
+      Office.EventType.ItemChanged,
+      dispatchItemChanged
+    );
+  }
+  itemChangedListeners.add(listener);
+
+  return () => {
+    if (!itemChangedListeners.delete(listener)) return;
+    if (itemChangedListeners.size === 0) {
+      Office.context.mailbox.removeHandlerAsync(Office.EventType.ItemChanged);
+    }
+  };
+}
+
+/* ------------------------------------------------------------------ */
+/*  Graph reads                                                       */
+/* ------------------------------------------------------------------ */
+
+/** Graph path of a message in `mailbox` (default: the user's own). */
+export function messagePath(
+  restId: string,
+  mailbox: MailboxContext = OWN_MAILBOX
+): string {
+  return `${mailboxPath(mailbox)}/messages/${encodeURIComponent(restId)}`;
+}
+
+/** The full message, with a plain-text body and its internet headers. */
+export function getMessage(
+  restId: string,
+  mailbox: MailboxContext = OWN_MAILBOX,
+  signal?: AbortSignal
+): Promise<MailMessage> {
+  return callGraphWithClaimsRetry<MailMessage>(
+    `${messagePath(restId, mailbox)}?$select=${MESSAGE_FIELDS}`,
+    featureScopes[mailFeature(mailbox)],
+    {
+      headers: { Prefer: 'outlook.body-content-type="text"' },
+      signal,
+    }
+  );
+}
+
+/** Attachment metadata of a message (no content bytes). */
+export function getAttachments(
+  restId: string,
+  mailbox: MailboxContext = OWN_MAILBOX,
+  signal?: AbortSignal
+): Promise<MailAttachment[]> {
+  return collectGraphItems<MailAttachment>(
+    `${messagePath(restId, mailbox)}/attachments` +
+      "?$select=id,name,contentType,size,isInline",
+    featureScopes[mailFeature(mailbox)],
+    { signal }
+  );
+}
+
+/**
+ * Messages of a conversation, oldest first.  Sorted here because Graph
+ * rejects `$orderby` combined with a `conversationId` filter.
+ */
+export async function getConversationMessages(
+  conversationId: string,
+  mailbox: MailboxContext = OWN_MAILBOX,
+  signal?: AbortSignal
+): Promise<ConversationMessage[]> {
+  const filter = `conversationId eq '${conversationId.replace(/'/g, "''")}'`;
+  const messages = await collectGraphItems<ConversationMessage>(
+    `${mailboxPath(mailbox)}/messages` +
+      `?$filter=${encodeURIComponent(filter)}` +
+      "&$select=id,subject,from,receivedDateTime,bodyPreview" +
+      `&$top=${CONVERSATION_LIMIT}`,
+    featureScopes[mailFeature(mailbox)],
+    { signal, maxItems: CONVERSATION_LIMIT }
+  );
+
+  return messages.sort((a, b) =>
+    (a.receivedDateTime ?? "").localeCompare(b.receivedDateTime ?? "")
+  );
+}
+
+/**
+ * Load a message of `mailbox` with its attachments and the other
+ * messages of its conversation.
+ */
+export async function loadMailItem(
+  restId: string,
+  mailbox: MailboxContext = OWN_MAILBOX,
+  signal?: AbortSignal
+): Promise<MailItemDetails> {
+  const [message, attachments] = await Promise.all([
+    getMessage(restId, mailbox, signal),
+    getAttachments(restId, mailbox, signal),
+  ]);
+
+  const conversation = message.conversationId
+    ? await getConversationMessages(message.conversationId, mailbox, signal)
+    : [];
+
+  return {
+    mailbox,
+    message,
+    attachments,
+    conversation: conversation.filter((m) => m.id !== message.id),
+  };
+}
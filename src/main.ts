@@ -2,6 +2,8 @@ import { createApp } from "vue";
 import { createRouter, createMemoryHistory } from "vue-router";
 import App from "./App.vue";
 import { routes } from "./router";
+import { configureResponseCache, loadAppConfig } from "./auth";
+import { createAuthPlugin } from "./plugins/authPlugin";
 
 /* ------------------------------------------------------------------ */
 /*  Bootstrap Vue — wait for Office, then mount once                  */
@@ -13,14 +15,40 @@ function mountApp(): void {
   if (mounted) return;
   mounted = true;
 
-  const router = createRouter({
-    history: createMemoryHistory(),
-    routes,
-  });
+  // The task pane reopens constantly – keep GET responses across runs
+  configureResponseCache({ enabled: true });
 
-  const app = createApp(App);
-  app.use(router);
-  app.mount("#app");
+  // Runtime config (client ID, tenant, cloud) must be applied before
+  // the first MSAL call; a bad config stops start-up with a message.
+  loadAppConfig()
+    .then(() => {
+      const router = createRouter({
+        history: createMemoryHistory(),
+        routes,
+      });
+
+      const app = createApp(App);
+      app.use(router);
+      app.use(createAuthPlugin({ router }));
+      app.mount("#app");
+    })
+    .catch((e: unknown) => showStartupError(e));
+}
+
+/** Render a plain-text start-up failure in place of the app. */
+function showStartupError(e: unknown): void {
+  console.error(e);
+
+  const container = document.getElementById("app");
+  if (!container) return;
+
+  const banner = document.createElement("div");
+  banner.setAttribute("role", "alert");
+  banner.style.cssText =
+    "margin:16px;padding:10px 14px;background:#fde7e9;color:#a80000;" +
+    "border-radius:4px;font:13px 'Segoe UI',sans-serif;";
+  banner.textContent = `Configuration error: ${(e as Error).message}`;
+  container.replaceChildren(banner);
 }
 
 // Wait for Office.js, but guarantee the app boots within 3 seconds.
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from "vitest";
+import { flushPromises } from "@vue/test-utils";
+import { createApp, defineComponent, h } from "vue";
+import { createRouter, createMemoryHistory } from "vue-router";
+import { AuthError, InteractionRequiredAuthError } from "@azure/msal-browser";
+
+const Stub = defineComponent({ render: () => h("div") });
+
+/**
+ * Fresh module graph per test (`useAuth` state is module-level), an
+ * app with the plugin installed and a router with guarded routes.
+ */
+async function setup(
+  arrange: (harness: typeof import("@/test/harness")) => void
+) {
+  vi.resetModules();
+  const harness = await import("@/test/harness");
+  const { createAuthPlugin } = await import("@/plugins/authPlugin");
+
+  harness.resetAuthState();
+  arrange(harness);
+
+  const router = createRouter({
+    history: createMemoryHistory(),
+    routes: [
+      { path: "/", name: "Home", component: Stub },
+      { path: "/consent", name: "Consent", component: Stub },
+      { path: "/signed-out", name: "SignedOut", component: Stub },
+      {
+        path: "/mail",
+        name: "Mail",
+        component: Stub,
+        meta: { requiredScopes: ["Mail.Read"] },
+      },
+    ],
+  });
+  const app = createApp(Stub);
+  app.use(router);
+  app.use(createAuthPlugin({ router }));
+
+  return { router };
+}
+
+describe("auth route guards", () => {
+  it("sends signed-out users to sign in with a redirect back", async () => {
+    const { router } = await setup((tools) => tools.installFakeMsal([]));
+
+    await router.push("/mail");
+
+    expect(router.currentRoute.value.name).toBe("Home");
+    expect(router.currentRoute.value.query.redirect).toBe("/mail");
+  });
+
+  it("lets users through once the scopes are granted silently", async () => {
+    const { router } = await setup((tools) => {
+      const msal = tools.installFakeMsal();
+      msal.onSilent(tools.makeAuthResult({ scopes: ["Mail.Read"] }));
+    });
+
+    await router.push("/mail");
+
+    expect(router.currentRoute.value.name).toBe("Mail");
+  });
+
+  it("sends users without consent to the consent screen", async () => {
+    let popups!: unknown[];
+    const { router } = await setup((tools) => {
+      const msal = tools.installFakeMsal();
+      msal.onSilent(new InteractionRequiredAuthError("consent_required"));
+      popups = msal.popupRequests;
+    });
+
+    await router.push("/mail");
+
+    expect(router.currentRoute.value.name).toBe("Consent");
+    expect(router.currentRoute.value.query.redirect).toBe("/mail");
+    expect(popups).toHaveLength(0);
+  });
+});
+
+describe("session end", () => {
+  it("shows the signed-out screen when the session is revoked", async () => {
+    const { router } = await setup((tools) => {
+      const msal = tools.installFakeMsal();
+      msal.onSilent(
+        tools.makeAuthResult({ scopes: ["Mail.Read"] }),
+        new AuthError("invalid_grant", "AADSTS50173: grant revoked")
+      );
+    });
+    const { acquireToken } = await import("@/auth");
+    await router.push("/mail");
+
+    await acquireToken(["User.Read"]).catch(() => undefined);
+    await flushPromises();
+
+    expect(router.currentRoute.value.name).toBe("SignedOut");
+  });
+});
+
+describe("getRedirectTarget", () => {
+  it("only accepts in-app paths", async () => {
+    const { getRedirectTarget } = await import("@/plugins/authPlugin");
+    const route = (redirect: string) =>
+      ({ query: { redirect } }) as unknown as Parameters<
+        typeof getRedirectTarget
+      >[0];
+
+    expect(getRedirectTarget(route("/profile?tab=1"))).toBe("/profile?tab=1");
+    expect(getRedirectTarget(route("//evil.example"))).toBeNull();
+    expect(getRedirectTarget(route("https://evil.example"))).toBeNull();
+  });
+});
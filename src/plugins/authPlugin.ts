@@ -0,0 +1,133 @@
+/**
+ * authPlugin.ts
+ * ─────────────
+ * Vue plugin that initialises MSAL once, provides the shared auth
+ * instance to every component (`useAuth()` injects it) and guards
+ * routes by their `meta`:
+ *
+ *  - `requiresAuth`   – signed-out users go to the sign-in route.
+ *  - `requiredScopes` – scopes (or a feature ID from `featureScopes`)
+ *                       the route needs; users who have not granted
+ *                       them go to the consent route.  Implies
+ *                       `requiresAuth`.
+ *
+ * Both redirects carry `?redirect=<original route>` so the target
+ * view can send the user back once they are done.  When Entra ID ends
+ * the session (CAE revocation), the app moves to the signed-out route.
+ */
+
+import type { App, Plugin } from "vue";
+import type {
+  RouteLocationNormalized,
+  RouteLocationNormalizedLoaded,
+  RouteLocationRaw,
+  Router,
+} from "vue-router";
+import { onSessionEnded, type FeatureId } from "@/auth";
+import {
+  AUTH_KEY,
+  createAuth,
+  initAuth,
+  type Auth,
+} from "@/composables/useAuth";
+
+declare module "vue-router" {
+  interface RouteMeta {
+    /** Only signed-in users may open the route. */
+    requiresAuth?: boolean;
+    /** Scopes (or a feature's scopes) the route needs. */
+    requiredScopes?: string[] | FeatureId;
+  }
+}
+
+export interface AuthPluginOptions {
+  /** Router to guard; omit to only provide auth. */
+  router?: Router;
+  /** Route name for signing in (default "Home"). */
+  signInRoute?: string;
+  /** Route name of the consent screen (default "Consent"). */
+  consentRoute?: string;
+  /** Route name shown after a revoked session (default "SignedOut"). */
+  signedOutRoute?: string;
+}
+
+/** Query parameter holding the route to return to. */
+export const REDIRECT_QUERY = "redirect";
+
+/**
+ * The in-app path to return to from `route`'s query, or `null`.
+ * Anything that is not a plain app path is ignored.
+ */
+export function getRedirectTarget(
+  route: RouteLocationNormalizedLoaded
+): string | null {
+  const target = route.query[REDIRECT_QUERY];
+  return typeof target === "string" &&
+    target.startsWith("/") &&
+    !target.startsWith("//")
+    ? target
+    : null;
+}
+
+/**
+ * Where a navigation to `to` must go instead, or `true` to let it
+ * through.
+ */
+export async function resolveAuthRedirect(
+  to: RouteLocationNormalized,
+  auth: Auth,
+  routes: { signIn: string; consent: string }
+): Promise<true | RouteLocationRaw> {
+  const { requiresAuth, requiredScopes } = to.meta;
+  if (!requiresAuth && !requiredScopes) return true;
+
+  await initAuth();
+  const query = { [REDIRECT_QUERY]: to.fullPath };
+
+  if (!auth.isAuthenticated.value) {
+    return to.name === routes.signIn ? true : { name: routes.signIn, query };
+  }
+  if (requiredScopes && !(await auth.checkScopes(requiredScopes))) {
+    return { name: routes.consent, query };
+  }
+  return true;
+}
+
+/** Add the `requiresAuth` / `requiredScopes` guard to `router`. */
+export function installAuthGuards(
+  router: Router,
+  auth: Auth,
+  options: Pick<AuthPluginOptions, "signInRoute" | "consentRoute"> = {}
+): () => void {
+  const routes = {
+    signIn: options.signInRoute ?? "Home",
+    consent: options.consentRoute ?? "Consent",
+  };
+  return router.beforeEach((to) => resolveAuthRedirect(to, auth, routes));
+}
+
+/**
+ * Create the auth plugin:
+ *
+ * ```ts
+ * app.use(router);
+ * app.use(createAuthPlugin({ router }));
+ * ```
+ */
+export function createAuthPlugin(options: AuthPluginOptions = {}): Plugin {
+  return {
+    install(app: App) {
+      const auth = createAuth();
+      app.provide(AUTH_KEY, auth);
+      void initAuth();
+
+      const { router } = options;
+      if (router) {
+        installAuthGuards(router, auth, options);
+        onSessionEnded(() => {
+          void router.push({ name: options.signedOutRoute ?? "SignedOut" });
+        });
+      }
+    },
+  };
+}
@@ -11,5 +11,28 @@ export const routes: RouteRecordRaw[] = [
     path: "/profile",
     name: "Profile",
     component: () => import("./views/ProfileView.vue"),
+    meta: { requiresAuth: true, requiredScopes: "profile" },
+  },
+  {
+    path: "/message",
+    name: "Message",
+    component: () => import("./views/MessageView.vue"),
+    meta: { requiresAuth: true, requiredScopes: "readMail" },
+  },
+  {
+    path: "/consent",
+    name: "Consent",
+    component: () => import("./views/ConsentView.vue"),
+    meta: { requiresAuth: true },
+  },
+  {
+    path: "/signed-out",
+    name: "SignedOut",
+    component: () => import("./views/SignedOutView.vue"),
+  },
+  {
+    path: "/diagnostics",
+    name: "Diagnostics",
+    component: () => import("./views/DiagnosticsView.vue"),
   },
 ];
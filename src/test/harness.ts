@@ -0,0 +1,228 @@
+/**
+ * harness.ts
+ * ──────────
+ * Test doubles for the auth layer: a scripted fake MSAL client that is
+ * injected with `setMsalInstance()`, and a scripted `fetch` responder
+ * that replays canned API responses in order.
+ */
+
+import { vi } from "vitest";
+import type {
+  AccountInfo,
+  AuthenticationResult,
+  IPublicClientApplication,
+  PopupRequest,
+  SilentRequest,
+} from "@azure/msal-browser";
+
+import {
+  setMsalInstance,
+  configureClaimsStore,
+  createMemoryStorage,
+  clearGrantedScopes,
+  configureResponseCache,
+  createMemoryCacheStorage,
+} from "@/auth";
+
+/* ------------------------------------------------------------------ */
+/*  Fixtures                                                          */
+/* ------------------------------------------------------------------ */
+
+export const testAccount: AccountInfo = {
+  homeAccountId: "uid.utid",
+  environment: "login.microsoftonline.com",
+  tenantId: "utid",
+  username: "adele@contoso.com",
+  localAccountId: "uid",
+  name: "Adele Vance",
+};
+
+export function makeAuthResult(
+  overrides: Partial<AuthenticationResult> = {}
+): AuthenticationResult {
+  return {
+    authority: "https://login.microsoftonline.com/common",
+    uniqueId: testAccount.localAccountId,
+    tenantId: testAccount.tenantId,
+    scopes: ["User.Read"],
+    account: testAccount,
+    idToken: "id-token",
+    idTokenClaims: {},
+    accessToken: "access-token",
+    fromCache: false,
+    expiresOn: new Date(Date.now() + 3600_000),
+    tokenType: "Bearer",
+    correlationId: "correlation-id",
+    ...overrides,
+  };
+}
+
+/** Unsigned JWT with `payload` – enough for client-side decoding. */
+export function fakeJwt(payload: object): string {
+  const encode = (value: object) =>
+    btoa(JSON.stringify(value))
+      .replace(/\+/g, "-")
+      .replace(/\//g, "_")
+      .replace(/=+$/, "");
+  return `${encode({ alg: "none" })}.${encode(payload)}.`;
+}
+
+/** Base-64 encode a claims object the way Entra ID sends it. */
+export function encodeClaims(claims: object): string {
+  return btoa(JSON.stringify(claims));
+}
+
+/* ------------------------------------------------------------------ */
+/*  Fake MSAL client                                                  */
+/* ------------------------------------------------------------------ */
+
+type Step<TRequest> =
+  | AuthenticationResult
+  | Error
+  | ((request: TRequest) => Promise<AuthenticationResult>);
+
+export interface FakeMsal {
+  pca: IPublicClientApplication;
+  /** Requests received by `acquireTokenSilent`, in order. */
+  silentRequests: SilentRequest[];
+  /** Requests received by `acquireTokenPopup`, in order. */
+  popupRequests: PopupRequest[];
+  /** Queue outcomes for the next silent calls. */
+  onSilent(...steps: Step<SilentRequest>[]): void;
+  /** Queue outcomes for the next popup calls. */
+  onPopup(...steps: Step<PopupRequest>[]): void;
+}
+
+/**
+ * Create a fake `IPublicClientApplication` and inject it as the
+ * auth service singleton.  Unscripted calls return a default result.
+ */
+export function installFakeMsal(
+  initialAccounts: AccountInfo[] = [testAccount]
+): FakeMsal {
+  let accounts = [...initialAccounts];
+  const silentSteps: Step<SilentRequest>[] = [];
+  const popupSteps: Step<PopupRequest>[] = [];
+  let active: AccountInfo | null = null;
+
+  const run = async <T>(steps: Step<T>[], request: T) => {
+    const step = steps.shift() ?? makeAuthResult();
+    if (step instanceof Error) throw step;
+    return typeof step === "function" ? step(request) : step;
+  };
+
+  const fake: FakeMsal = {
+    silentRequests: [],
+    popupRequests: [],
+    onSilent: (...steps) => silentSteps.push(...steps),
+    onPopup: (...steps) => popupSteps.push(...steps),
+    pca: {
+      acquireTokenSilent: vi.fn(async (request: SilentRequest) => {
+        fake.silentRequests.push({ ...request });
+        return run(silentSteps, request);
+      }),
+      acquireTokenPopup: vi.fn(async (request: PopupRequest) => {
+        fake.popupRequests.push({ ...request });
+        const result = await run(popupSteps, request);
+        const signedIn = result.account;
+        if (signedIn && !accounts.some((a) => a === signedIn)) {
+          accounts.push(signedIn);
+        }
+        return result;
+      }),
+      getActiveAccount: () => active,
+      setActiveAccount: (account: AccountInfo | null) => {
+        active = account;
+      },
+      getAllAccounts: () => accounts,
+      clearCache: vi.fn(async (request?: { account?: AccountInfo }) => {
+        accounts = request?.account
+          ? accounts.filter((a) => a !== request.account)
+          : [];
+        active = null;
+      }),
+    } as unknown as IPublicClientApplication,
+  };
+
+  setMsalInstance(fake.pca);
+  return fake;
+}
+
+/**
+ * Reset module state shared between tests: the MSAL singleton, the
+ * claims store (in-memory, no cross-runtime broadcast), the scopes
+ * recorded for the test account and the response cache (off, empty).
+ */
+export function resetAuthState(): void {
+  setMsalInstance(null);
+  configureClaimsStore({ storage: createMemoryStorage(), channelName: null });
+  clearGrantedScopes(testAccount);
+  configureResponseCache({
+    enabled: false,
+    storage: createMemoryCacheStorage(),
+  });
+}
+
+/* ------------------------------------------------------------------ */
+/*  Scripted fetch                                                    */
+/* ------------------------------------------------------------------ */
+
+export interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Headers;
+  body: unknown;
+}
+
+type Responder = Response | ((request: RecordedRequest) => Response);
+
+/**
+ * Replace `fetch` with a responder that replays `responses` in order.
+ * Throws if more requests are made than were scripted.
+ *
+ * @returns The list of requests received (filled as calls happen).
+ */
+export function scriptFetch(...responses: Responder[]): RecordedRequest[] {
+  const requests: RecordedRequest[] = [];
+
+  vi.stubGlobal(
+    "fetch",
+    vi.fn(async (url: string, init: RequestInit = {}) => {
+      const request: RecordedRequest = {
+        url,
+        method: init.method ?? "GET",
+        headers: new Headers(init.headers),
+        body: init.body,
+      };
+      requests.push(request);
+
+      const next = responses.shift();
+      if (!next) {
+        throw new Error(`Unscripted fetch: ${request.method} ${url}`);
+      }
+      return typeof next === "function" ? next(request) : next;
+    })
+  );
+
+  return requests;
+}
+
+export function jsonResponse(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+}
+
+/** A 401 carrying a CAE `insufficient_claims` challenge. */
+export function claimsChallengeResponse(claims: object): Response {
+  return new Response("", {
+    status: 401,
+    headers: {
+      "WWW-Authenticate":
+        'Bearer realm="", ' +
+        'authorization_uri="https://login.microsoftonline.com/common/oauth2/authorize", ' +
+        `error="insufficient_claims", claims="${encodeClaims(claims)}"`,
+    },
+  });
+}
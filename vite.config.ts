@@ -1,6 +1,8 @@
-import { defineConfig } from "vite";
+import { defineConfig, type Plugin } from "vite";
 import vue from "@vitejs/plugin-vue";
 import { resolve } from "path";
+import { createHash, randomUUID } from "crypto";
+import type { IncomingMessage, ServerResponse } from "http";
 import * as devCerts from "office-addin-dev-certs";
 
 // https://vitejs.dev/config/
@@ -9,7 +11,7 @@ export default defineConfig(async () => {
   const httpsOptions = await getHttpsOptions();
 
   return {
-    plugins: [vue()],
+    plugins: [vue(), caeEmulator()],
     resolve: {
       alias: {
         "@": resolve(__dirname, "src"),
@@ -30,6 +32,8 @@ export default defineConfig(async () => {
           index: resolve(__dirname, "index.html"),
           taskpane: resolve(__dirname, "taskpane.html"),
           commands: resolve(__dirname, "commands.html"),
+          dialog: resolve(__dirname, "dialog.html"),
+          events: resolve(__dirname, "events.html"),
         },
       },
     },
@@ -47,3 +51,418 @@ async function getHttpsOptions() {
     return undefined;
   }
 }
+
+/* ------------------------------------------------------------------ */
+/*  CAE emulator (dev server only)                                    */
+/* ------------------------------------------------------------------ */
+
+/*
+ * A Graph-like API plus a stub token endpoint, mounted under
+ * /cae-emulator when the app runs with VITE_CAE_EMULATOR=true (see
+ * src/auth/emulatorClient.ts).  Faults are switched on with
+ *
+ *   POST /cae-emulator/_control?fault=claims|throttle|revoked|none
+ *        [&count=<n>&retryAfter=<s>]   (or the same fields as JSON)
+ *   GET  /cae-emulator/_control        (current state)
+ *
+ * or for a single request with `?cae=claims|throttle|revoked` on a
+ * Graph URL.  A query-flag fault fires once per URL until the next
+ * `/_control` call, so the app's retry of the same URL succeeds.
+ */
+
+/** Keep in sync with EMULATOR_BASE_PATH in src/auth/emulatorClient.ts. */
+const EMULATOR_BASE_PATH = "/cae-emulator";
+
+type EmulatorFault = "claims" | "throttle" | "revoked" | "none";
+
+interface EmulatorState {
+  /** Tokens minted before this generation get a claims challenge. */
+  generation: number;
+  /** `nbf` (epoch s) sent with the claims challenge. */
+  notBefore: number;
+  /** Remaining 429 responses and their Retry-After (s). */
+  throttleCount: number;
+  retryAfter: number;
+  /** Sign-in fails with AADSTS50173 and API calls are challenged. */
+  revoked: boolean;
+  /** URLs whose `?cae=` fault has fired. */
+  firedFlags: Set<string>;
+}
+
+/** Body of a `/_control` POST. */
+interface ControlBody {
+  fault: EmulatorFault;
+  count: number;
+  retryAfter: number;
+}
+
+/** Body of a `/_token` call (see emulatorClient.ts). */
+interface TokenBody {
+  scopes: string[];
+  claims: string;
+  interactive: boolean;
+}
+
+interface EmulatorToken {
+  iat: number;
+  scp: string;
+  acrs?: string[];
+  emu_gen: number;
+}
+
+/** Same list as `OIDC_SCOPES` in src/auth/consent.ts. */
+const OIDC_SCOPES = ["openid", "profile", "offline_access", "email"];
+
+const emulatorUser = {
+  id: "emulator-oid",
+  displayName: "Megan Bowen (emulated)",
+  givenName: "Megan",
+  surname: "Bowen",
+  mail: "megan@contoso.dev",
+  userPrincipalName: "megan@contoso.dev",
+  jobTitle: "Marketing Manager",
+  officeLocation: "12/1110",
+};
+
+const emulatorMessages = [
+  {
+    id: "emulator-message-1",
+    subject: "Q3 planning",
+    from: {
+      emailAddress: { name: "Adele Vance", address: "adele@contoso.dev" },
+    },
+    receivedDateTime: "2024-09-02T08:30:00Z",
+    conversationId: "emulator-conversation-1",
+    hasAttachments: true,
+    importance: "normal",
+    bodyPreview: "Draft agenda attached.",
+    body: { contentType: "text", content: "Draft agenda attached." },
+    categories: [] as string[],
+    flag: { flagStatus: "notFlagged" },
+  },
+  {
+    id: "emulator-message-2",
+    subject: "RE: Q3 planning",
+    from: {
+      emailAddress: { name: "Alex Wilber", address: "alex@contoso.dev" },
+    },
+    receivedDateTime: "2024-09-02T10:05:00Z",
+    conversationId: "emulator-conversation-1",
+    hasAttachments: false,
+    importance: "high",
+    bodyPreview: "Looks good, one comment on item 3.",
+    body: {
+      contentType: "text",
+      content: "Looks good, one comment on item 3.",
+    },
+    categories: [] as string[],
+    flag: { flagStatus: "notFlagged" },
+  },
+];
+
+function caeEmulator(): Plugin {
+  const state: EmulatorState = {
+    generation: 0,
+    notBefore: 0,
+    throttleCount: 0,
+    retryAfter: 2,
+    revoked: false,
+    firedFlags: new Set(),
+  };
+
+  const now = () => Math.floor(Date.now() / 1000);
+
+  const applyFault = (fault: EmulatorFault, count = 1, retryAfter = 2) => {
+    switch (fault) {
+      case "claims":
+        state.generation++;
+        state.notBefore = now();
+        break;
+      case "throttle":
+        state.throttleCount = count;
+        state.retryAfter = retryAfter;
+        break;
+      case "revoked":
+        state.revoked = true;
+        break;
+      case "none":
+        state.throttleCount = 0;
+        state.revoked = false;
+        break;
+    }
+  };
+
+  const handleControl = async (req: IncomingMessage, res: ServerResponse) => {
+    const query = new URL(req.url ?? "", "http://emulator").searchParams;
+    const body = req.method === "POST" ? await readJson<ControlBody>(req) : {};
+    const fault = body.fault ?? (query.get("fault") as EmulatorFault | null);
+    if (fault) {
+      if (!["claims", "throttle", "revoked", "none"].includes(fault)) {
+        return sendJson(res, 400, { error: `Unknown fault "${fault}"` });
+      }
+      applyFault(
+        fault,
+        Number(body.count ?? query.get("count") ?? 1),
+        Number(body.retryAfter ?? query.get("retryAfter") ?? 2)
+      );
+    }
+    state.firedFlags.clear();
+    sendJson(res, 200, {
+      generation: state.generation,
+      notBefore: state.notBefore,
+      throttleCount: state.throttleCount,
+      retryAfter: state.retryAfter,
+      revoked: state.revoked,
+    });
+  };
+
+  /** Stub of the Entra ID token endpoint (see emulatorClient.ts). */
+  const handleToken = async (req: IncomingMessage, res: ServerResponse) => {
+    const { scopes = [], claims, interactive } =
+      await readJson<TokenBody>(req);
+    if (state.revoked) {
+      return sendJson(res, 400, {
+        error: "invalid_grant",
+        error_description:
+          "AADSTS50173: The provided grant has expired due to it being " +
+          "revoked, a fresh auth token is needed.",
+      });
+    }
+
+    const requested = claims ? JSON.parse(claims) : {};
+    const acrs = requested.access_token?.acrs;
+    const contexts: string[] | undefined =
+      acrs?.values ?? (acrs?.value ? [acrs.value] : undefined);
+    if (contexts && !interactive) {
+      return sendJson(res, 400, {
+        error: "interaction_required",
+        error_description:
+          "AADSTS50076: Due to a configuration change made by your " +
+          "administrator, you must use multi-factor authentication.",
+        claims,
+      });
+    }
+
+    const scp = scopes
+      .filter((scope) => !OIDC_SCOPES.includes(scope))
+      .map((scope) => scope.slice(scope.lastIndexOf("/") + 1))
+      .join(" ");
+    const iat = now();
+    const payload = {
+      aud: "https://graph.microsoft.com",
+      iss: "https://login.microsoftonline.com/emulator-tid/v2.0",
+      iat,
+      nbf: iat,
+      exp: iat + 3600,
+      scp,
+      tid: "emulator-tid",
+      oid: "emulator-oid",
+      upn: emulatorUser.userPrincipalName,
+      xms_cc: ["cp1"],
+      acrs: contexts,
+      emu_gen: state.generation,
+    };
+    sendJson(res, 200, {
+      access_token: [
+        base64Url(JSON.stringify({ alg: "none", typ: "JWT" })),
+        base64Url(JSON.stringify(payload)),
+        "",
+      ].join("."),
+      expires_in: 3600,
+      scope: scp,
+    });
+  };
+
+  /** Claims challenge as Graph sends it for a revoked CAE session. */
+  const sendClaimsChallenge = (res: ServerResponse) => {
+    const claims = JSON.stringify({
+      access_token: {
+        nbf: { essential: true, value: String(state.notBefore || now()) },
+      },
+    });
+    res.setHeader(
+      "WWW-Authenticate",
+      'Bearer realm="", authorization_uri="https://login.microsoftonline.' +
+        'com/common/oauth2/authorize", error="insufficient_claims", ' +
+        `claims="${Buffer.from(claims).toString("base64")}"`
+    );
+    sendJson(res, 401, {
+      error: {
+        code: "InvalidAuthenticationToken",
+        message: "Continuous access evaluation resulted in challenge.",
+      },
+    });
+  };
+
+  const sendThrottled = (res: ServerResponse, retryAfter: number) => {
+    res.setHeader("Retry-After", String(retryAfter));
+    sendJson(res, 429, {
+      error: { code: "TooManyRequests", message: "Too many requests." },
+    });
+  };
+
+  const handleGraph = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+    url: URL
+  ) => {
+    const token = readBearer(req);
+    if (!token) {
+      return sendJson(res, 401, {
+        error: {
+          code: "InvalidAuthenticationToken",
+          message: "Access token is empty.",
+        },
+      });
+    }
+
+    const flag = url.searchParams.get("cae");
+    const flagKey = `${req.method} ${url.pathname}${url.search}`;
+    if (flag && !state.firedFlags.has(flagKey)) {
+      state.firedFlags.add(flagKey);
+      if (flag === "throttle") return sendThrottled(res, state.retryAfter);
+      if (flag === "revoked") state.revoked = true;
+      if (flag === "claims") applyFault("claims");
+    }
+
+    if (state.revoked || token.emu_gen < state.generation) {
+      return sendClaimsChallenge(res);
+    }
+    if (state.throttleCount > 0) {
+      state.throttleCount--;
+      return sendThrottled(res, state.retryAfter);
+    }
+
+    // One mailbox: /users/{owner}/... (shared mailboxes) is served as /me
+    const path = url.pathname
+      .replace(/^\/v1\.0/, "")
+      .replace(/^\/users\/[^/]+/, "/me");
+    const messageMatch = /^\/me\/messages\/([^/]+)(\/attachments)?$/.exec(
+      path
+    );
+
+    if (req.method === "GET" && path === "/me") {
+      return sendGraph(req, res, emulatorUser);
+    }
+    if (req.method === "GET" && path === "/me/messages") {
+      return sendGraph(req, res, { value: emulatorMessages });
+    }
+    if (messageMatch) {
+      const id = decodeURIComponent(messageMatch[1]);
+      const message = findMessage(id);
+      if (messageMatch[2]) {
+        return sendGraph(req, res, {
+          value: message.hasAttachments
+            ? [
+                {
+                  id: `${id}-attachment-1`,
+                  name: "agenda.docx",
+                  contentType:
+                    "application/vnd.openxmlformats-officedocument." +
+                    "wordprocessingml.document",
+                  size: 24_576,
+                  isInline: false,
+                },
+              ]
+            : [],
+        });
+      }
+      if (req.method === "PATCH") {
+        Object.assign(message, await readJson<typeof message>(req));
+      }
+      if (req.method === "GET" || req.method === "PATCH") {
+        return sendGraph(req, res, message);
+      }
+    }
+
+    sendJson(res, 404, {
+      error: {
+        code: "ResourceNotFound",
+        message: `${req.method} ${path} is not emulated.`,
+      },
+    });
+  };
+
+  return {
+    name: "cae-emulator",
+    apply: "serve",
+    configureServer(server) {
+      server.middlewares.use(EMULATOR_BASE_PATH, (req, res, next) => {
+        const url = new URL(req.url ?? "/", "http://emulator");
+        res.setHeader("request-id", randomUUID());
+
+        const handle =
+          url.pathname === "/_control"
+            ? handleControl(req, res)
+            : url.pathname === "/_token" && req.method === "POST"
+              ? handleToken(req, res)
+              : url.pathname.startsWith("/v1.0/")
+                ? handleGraph(req, res, url)
+                : undefined;
+
+        if (!handle) return next();
+        handle.catch((error: unknown) =>
+          sendJson(res, 500, {
+            error: { code: "EmulatorError", message: String(error) },
+          })
+        );
+      });
+    },
+  };
+}
+
+/** Fixture message `id`, or one created for an unknown (real) item ID. */
+function findMessage(id: string) {
+  let message = emulatorMessages.find((candidate) => candidate.id === id);
+  if (!message) {
+    message = { ...emulatorMessages[0], id, hasAttachments: false };
+    emulatorMessages.push(message);
+  }
+  return message;
+}
+
+/** Decoded payload of the request's emulator token, if any. */
+function readBearer(req: IncomingMessage): EmulatorToken | undefined {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? "");
+  const payload = match?.[1].split(".")[1];
+  if (!payload) return undefined;
+  try {
+    return JSON.parse(Buffer.from(payload, "base64url").toString("utf8"));
+  } catch {
+    return undefined;
+  }
+}
+
+async function readJson<T>(req: IncomingMessage): Promise<Partial<T>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  const text = Buffer.concat(chunks).toString("utf8");
+  return text ? (JSON.parse(text) as Partial<T>) : {};
+}
+
+function base64Url(text: string): string {
+  return Buffer.from(text).toString("base64url");
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown): void {
+  res.statusCode = status;
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify(body));
+}
+
+/** Graph response with an ETag; answers If-None-Match with a 304. */
+function sendGraph(
+  req: IncomingMessage,
+  res: ServerResponse,
+  body: unknown
+): void {
+  const json = JSON.stringify(body);
+  const etag = `W/"${createHash("sha1").update(json).digest("hex")}"`;
+  res.setHeader("ETag", etag);
+  if (req.method === "GET" && req.headers["if-none-match"] === etag) {
+    res.statusCode = 304;
+    res.end();
+    return;
+  }
+  sendJson(res, 200, body);
+}
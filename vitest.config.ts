@@ -0,0 +1,19 @@
+import { defineConfig } from "vitest/config";
+import vue from "@vitejs/plugin-vue";
+import { resolve } from "path";
+
+// Kept separate from vite.config.ts, which generates dev HTTPS certs.
+export default defineConfig({
+  plugins: [vue()],
+  resolve: {
+    alias: {
+      "@": resolve(__dirname, "src"),
+    },
+  },
+  test: {
+    environment: "happy-dom",
+    include: ["src/**/__tests__/**/*.spec.ts"],
+    restoreMocks: true,
+    unstubGlobals: true,
+  },
+});